@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ApprovalDecision, PlanApproval, TargetState, getMunitionEmoji } from '../types';
+
+interface ApprovalPanelProps {
+  approval: PlanApproval;
+  targets: TargetState[];
+  /** edits为修改后的交战列表，未修改时为undefined */
+  onApprove: (planId: number, edits?: { platformId: number; targetId: number }[]) => void;
+  onReject: (planId: number) => void;
+}
+
+const DECISION_LABELS: Record<ApprovalDecision, string> = {
+  approved: 'Approved',
+  edited: 'Approved with edits',
+  auto: 'Auto-approved',
+  pareto: 'Selected from trade-off',
+  rejected: 'Rejected'
+};
+
+export default function ApprovalPanel({ approval, targets, onApprove, onReject }: ApprovalPanelProps) {
+  const pending = approval.pending;
+  // 各交战修改后的目标，null表示删除该交战
+  const [edits, setEdits] = useState<(number | null)[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  const resetEdits = () => setEdits(pending ? pending.engagements.map(e => e.targetId) : []);
+  // 新的待审批方案到达时丢弃未提交的修改
+  useEffect(resetEdits, [pending?.id]);
+
+  // 自动批准倒计时
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const aliveTargets = targets.filter(t => t.alive);
+  const edited = pending !== null && pending.engagements.some((e, k) => edits[k] !== undefined && edits[k] !== e.targetId);
+  const editedEngagements = () => pending!.engagements.flatMap((e, k) =>
+    edits[k] === null ? [] : [{ platformId: e.platformId, targetId: edits[k] ?? e.targetId }]
+  );
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        {pending ? (
+          <>
+            <span className="text-xs bg-yellow-600 px-2 py-1 rounded">PENDING #{pending.id}</span>
+            <span className="text-gray-400">Reason: {pending.reason || 'N/A'}</span>
+            <span className="text-gray-400">Waiting {Math.max(0, (now - pending.since) / 1000).toFixed(0)}s</span>
+            {pending.autoApproveAt !== null && (
+              <span className="text-gray-400">
+                Auto-approve in {Math.max(0, (pending.autoApproveAt - now) / 1000).toFixed(0)}s
+              </span>
+            )}
+          </>
+        ) : (
+          <span className="text-xs text-gray-500">No plan awaiting approval</span>
+        )}
+        {approval.last && (
+          <span className="text-xs text-gray-400">
+            Last: #{approval.last.id} {DECISION_LABELS[approval.last.decision]}
+            {approval.last.decision !== 'rejected' && (approval.delivered ? ' — delivered to Arma' : ' — waiting for next reply to Arma')}
+          </span>
+        )}
+      </div>
+
+      {pending && (
+        <>
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {pending.engagements.length > 0 ? pending.engagements.map((e, k) => {
+              const targetId = edits[k] === undefined ? e.targetId : edits[k];
+              const setTarget = (value: number | null) => setEdits(pending.engagements.map((x, m) =>
+                (m === k ? value : edits[m] === undefined ? x.targetId : edits[m])
+              ));
+              if (targetId === null) {
+                return (
+                  <div key={k} className="flex items-center gap-2 text-xs bg-gray-900 text-gray-500 rounded px-2 py-1">
+                    <span className="line-through">Platform #{e.platformId} → Target #{e.targetId}</span>
+                    <button className="ml-auto hover:text-white" onClick={() => setTarget(e.targetId)}>Undo</button>
+                  </div>
+                );
+              }
+              return (
+                <div key={k} className="flex items-center gap-2 text-xs bg-gray-700 rounded px-2 py-1">
+                  <span className="font-mono w-24">Platform #{e.platformId}</span>
+                  <span className="text-gray-400">→</span>
+                  <select
+                    className="bg-gray-800 rounded px-1"
+                    value={targetId}
+                    onChange={ev => setTarget(Number(ev.target.value))}
+                  >
+                    {aliveTargets.map(t => <option key={t.id} value={t.id}>Target #{t.id}</option>)}
+                  </select>
+                  {targetId === e.targetId ? (
+                    <span className="text-gray-400">
+                      {getMunitionEmoji(e.munition)} ×{e.rounds} · wave {e.wave}
+                    </span>
+                  ) : (
+                    <span className="text-yellow-400">edited</span>
+                  )}
+                  <button
+                    className="ml-auto text-gray-400 hover:text-white"
+                    title="Remove engagement"
+                    onClick={() => setTarget(null)}
+                  >
+                    ✕
+                  </button>
+                </div>
+              );
+            }) : (
+              <div className="text-xs text-gray-500">No engagements</div>
+            )}
+          </div>
+
+          {pending.editErrors.length > 0 && (
+            <div className="text-xs bg-red-900 border border-red-700 rounded px-2 py-1 space-y-0.5">
+              <div className="text-red-300">Edited plan refused:</div>
+              {pending.editErrors.map((error, k) => (
+                <div key={k} className="text-red-200 font-mono">{error}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              className="bg-green-600 hover:bg-green-500 text-white px-3 py-1 rounded text-xs"
+              onClick={() => onApprove(pending.id, edited ? editedEngagements() : undefined)}
+            >
+              {edited ? '✓ Approve with edits' : '✓ Approve'}
+            </button>
+            <button
+              className="bg-red-700 hover:bg-red-600 text-white px-3 py-1 rounded text-xs"
+              onClick={() => onReject(pending.id)}
+            >
+              ✗ Reject
+            </button>
+            {edited && (
+              <button
+                className="bg-gray-600 hover:bg-gray-500 text-white px-3 py-1 rounded text-xs"
+                onClick={resetEdits}
+              >
+                Reset edits
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { ClientCommand, CommandRecord, Engagement } from '../types';
+
+interface CommandPanelProps {
+  commands: CommandRecord[];
+  engagements: Engagement[];
+  onSend: (command: ClientCommand) => void;
+}
+
+const STATE_STYLES: Record<CommandRecord['state'], string> = {
+  queued: 'bg-gray-600',
+  delivered: 'bg-blue-700',
+  acknowledged: 'bg-green-700',
+  failed: 'bg-red-700'
+};
+
+export default function CommandPanel({ commands, engagements, onSend }: CommandPanelProps) {
+  const [ttlSec, setTtlSec] = useState('2');
+  const [engagementKey, setEngagementKey] = useState('');
+
+  // 同一平台-目标对的多条交战只列一次
+  const pairs = Array.from(new Set(engagements.map(e => `${e.platformId}:${e.targetId}`)));
+  const ttl = Number(ttlSec);
+  const ttlValid = Number.isFinite(ttl) && ttl > 0;
+
+  const abort = () => {
+    const [platformId, targetId] = engagementKey.split(':').map(Number);
+    onSend({ type: 'abort_engagement', platformId, targetId });
+    setEngagementKey('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded"
+          onClick={() => onSend({ type: 'replan' })}
+        >
+          🔄 Request Replan
+        </button>
+
+        <span className="text-gray-500 mx-1">|</span>
+        <select
+          className="bg-gray-700 rounded px-2 py-1"
+          value={engagementKey}
+          onChange={e => setEngagementKey(e.target.value)}
+        >
+          <option value="">Engagement…</option>
+          {pairs.map(key => {
+            const [platformId, targetId] = key.split(':');
+            return <option key={key} value={key}>Platform #{platformId} → Target #{targetId}</option>;
+          })}
+        </select>
+        <button
+          className="bg-red-700 hover:bg-red-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-1 rounded"
+          disabled={engagementKey === ''}
+          onClick={abort}
+        >
+          ✋ Abort
+        </button>
+
+        <span className="text-gray-500 mx-1">|</span>
+        <input
+          type="number"
+          min="0.5"
+          step="0.5"
+          className="bg-gray-700 rounded px-2 py-1 w-20"
+          value={ttlSec}
+          onChange={e => setTtlSec(e.target.value)}
+        />
+        <button
+          className="bg-gray-600 hover:bg-gray-500 disabled:cursor-not-allowed text-white px-3 py-1 rounded"
+          disabled={!ttlValid}
+          onClick={() => onSend({ type: 'set_plan_ttl', ttlSec: ttl })}
+        >
+          ⏱ Set TTL (s)
+        </button>
+        <span className="text-gray-500">Delivered with the next reply to Arma</span>
+      </div>
+
+      {commands.length > 0 ? (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {commands.map(c => (
+            <div key={c.id} className="text-xs bg-gray-700 rounded px-2 py-1 flex items-center justify-between">
+              <span>
+                <span className="text-gray-400 font-mono">#{c.id}</span> {c.summary}
+                {c.errorMsg && <span className="text-red-300"> — {c.errorMsg}</span>}
+              </span>
+              <span className="flex items-center gap-2 ml-2">
+                <span className="text-gray-400">
+                  {new Date(c.acknowledgedAt ?? c.deliveredAt ?? c.createdAt).toLocaleTimeString()}
+                </span>
+                <span className={`font-mono uppercase px-1 rounded ${STATE_STYLES[c.state]}`}>{c.state}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">No commands sent</div>
+      )}
+    </div>
+  );
+}
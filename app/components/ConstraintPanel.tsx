@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { ConstraintKind, ConstraintStatus, PlatformState, TargetState } from '../types';
+
+interface ConstraintPanelProps {
+  constraints: ConstraintStatus[];
+  platforms: PlatformState[];
+  targets: TargetState[];
+  onAdd: (kind: ConstraintKind, platformId: number, targetId: number) => void;
+  onRemove: (id: number) => void;
+}
+
+const STATE_STYLES: Record<ConstraintStatus['state'], string> = {
+  active: 'bg-gray-700',
+  unsatisfiable: 'bg-red-900',
+  obsolete: 'bg-gray-900 text-gray-500'
+};
+
+export default function ConstraintPanel({ constraints, platforms, targets, onAdd, onRemove }: ConstraintPanelProps) {
+  const [platformId, setPlatformId] = useState<number | null>(null);
+  const [targetId, setTargetId] = useState<number | null>(null);
+
+  const alivePlatforms = platforms.filter(p => p.alive);
+  const aliveTargets = targets.filter(t => t.alive);
+  const canAdd = platformId !== null && targetId !== null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select
+          className="bg-gray-700 rounded px-2 py-1"
+          value={platformId ?? ''}
+          onChange={e => setPlatformId(e.target.value === '' ? null : Number(e.target.value))}
+        >
+          <option value="">Platform…</option>
+          {alivePlatforms.map(p => <option key={p.id} value={p.id}>Platform #{p.id}</option>)}
+        </select>
+        <span className="text-gray-400">→</span>
+        <select
+          className="bg-gray-700 rounded px-2 py-1"
+          value={targetId ?? ''}
+          onChange={e => setTargetId(e.target.value === '' ? null : Number(e.target.value))}
+        >
+          <option value="">Target…</option>
+          {aliveTargets.map(t => <option key={t.id} value={t.id}>Target #{t.id}</option>)}
+        </select>
+        <button
+          className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-1 rounded"
+          disabled={!canAdd}
+          onClick={() => onAdd('pin', platformId!, targetId!)}
+        >
+          📌 Pin
+        </button>
+        <button
+          className="bg-red-700 hover:bg-red-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-1 rounded"
+          disabled={!canAdd}
+          onClick={() => onAdd('forbid', platformId!, targetId!)}
+        >
+          ⛔ Forbid
+        </button>
+        <span className="text-gray-500">Applies from the next plan</span>
+      </div>
+
+      {constraints.length > 0 ? (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {constraints.map(c => (
+            <div key={c.id} className={`text-xs rounded px-2 py-1 flex items-center justify-between ${STATE_STYLES[c.state]}`}>
+              <span>
+                {c.kind === 'pin' ? '📌 Pin' : '⛔ Forbid'} Platform #{c.platformId} → Target #{c.targetId}
+                {c.reason && <span className="text-gray-400"> — {c.reason}</span>}
+              </span>
+              <span className="flex items-center gap-2 ml-2">
+                <span className="font-mono uppercase">{c.state}</span>
+                <button className="text-gray-400 hover:text-white" title="Remove" onClick={() => onRemove(c.id)}>✕</button>
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">No operator constraints</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { ParetoFront } from '../types';
+
+interface ParetoChartProps {
+  front: ParetoFront;
+  onSelect: (planId: number) => void;
+}
+
+const WIDTH = 480;
+const HEIGHT = 240;
+const PADDING = 36;
+
+export default function ParetoChart({ front, onSelect }: ParetoChartProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const points = front.points;
+
+  // 坐标轴范围（代价为横轴，期望价值为纵轴）
+  const maxCost = Math.max(1, ...points.map(p => p.cost));
+  const maxValue = Math.max(1, ...points.map(p => p.expectedValue));
+  const toX = (cost: number) => PADDING + (cost / maxCost) * (WIDTH - 2 * PADDING);
+  const toY = (value: number) => HEIGHT - PADDING - (value / maxValue) * (HEIGHT - 2 * PADDING);
+
+  const selected = points.find(p => p.id === (selectedId ?? front.activeId));
+  const canSend = selected !== undefined && selected.id !== front.activeId;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4">
+      <svg width={WIDTH} height={HEIGHT} className="bg-gray-900 rounded">
+        {/* 坐标轴 */}
+        <line x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} stroke="#6b7280" />
+        <line x1={PADDING} y1={PADDING} x2={PADDING} y2={HEIGHT - PADDING} stroke="#6b7280" />
+        <text x={WIDTH - PADDING} y={HEIGHT - 10} fill="#9ca3af" fontSize="11" textAnchor="end">Cost →</text>
+        <text x={8} y={PADDING - 12} fill="#9ca3af" fontSize="11">Expected value ↑</text>
+
+        {/* 前沿折线 */}
+        <polyline
+          points={points.map(p => `${toX(p.cost)},${toY(p.expectedValue)}`).join(' ')}
+          fill="none"
+          stroke="#4b5563"
+          strokeDasharray="4 3"
+        />
+
+        {points.map(p => {
+          const isActive = p.id === front.activeId;
+          const isSelected = p.id === selected?.id;
+          return (
+            <circle
+              key={p.id}
+              cx={toX(p.cost)}
+              cy={toY(p.expectedValue)}
+              r={isSelected ? 7 : 5}
+              fill={isActive ? '#22c55e' : '#3b82f6'}
+              stroke={isSelected ? '#facc15' : 'none'}
+              strokeWidth={2}
+              className="cursor-pointer"
+              onClick={() => setSelectedId(p.id)}
+            >
+              <title>
+                {`Plan #${p.id}: value ${p.expectedValue.toFixed(1)}, cost ${p.cost.toFixed(1)}`}
+              </title>
+            </circle>
+          );
+        })}
+      </svg>
+
+      <div className="flex-1 text-sm">
+        {selected ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="font-bold">Plan #{selected.id}</span>
+              {selected.id === front.activeId && (
+                <span className={`text-xs px-2 py-1 rounded ${front.delivered ? 'bg-green-600' : 'bg-yellow-600'}`}>
+                  {front.delivered ? 'ACTIVE' : 'PENDING DELIVERY'}
+                </span>
+              )}
+            </div>
+            <div className="text-gray-400">
+              {selected.weight === null ? 'Solver plan' : `Cost weight ×${selected.weight}`}
+            </div>
+            <div>📈 Expected value: {selected.expectedValue.toFixed(1)}</div>
+            <div>💰 Cost: {selected.cost.toFixed(1)}</div>
+            <div>🔗 Engagements: {selected.engagements.length}</div>
+            <div className="max-h-32 overflow-y-auto text-xs text-gray-300">
+              {selected.engagements.map((e, idx) => (
+                <div key={idx}>W{e.wave} #{e.platformId} → #{e.targetId} {e.munition || 'any'} ×{e.rounds}</div>
+              ))}
+            </div>
+            <button
+              className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-xs px-3 py-1 rounded"
+              disabled={!canSend}
+              onClick={() => onSelect(selected.id)}
+            >
+              Send to Arma
+            </button>
+          </div>
+        ) : (
+          <div className="text-gray-500">Click a point to inspect the plan</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { EngagementStatus, IssuedPlan, getMunitionEmoji } from '../types';
+
+interface PlanExecutionPanelProps {
+  plans: IssuedPlan[];
+}
+
+const STATUSES: EngagementStatus[] = ['pending', 'executed', 'reissued', 'ignored', 'obsolete', 'aborted'];
+
+const STATUS_STYLES: Record<EngagementStatus, string> = {
+  pending: 'bg-gray-600',
+  executed: 'bg-green-700',
+  reissued: 'bg-blue-700',
+  ignored: 'bg-yellow-700',
+  obsolete: 'bg-gray-800 text-gray-400',
+  aborted: 'bg-red-800'
+};
+
+const STATE_STYLES: Record<IssuedPlan['state'], string> = {
+  active: 'bg-green-600',
+  expired: 'bg-yellow-600',
+  superseded: 'bg-gray-600'
+};
+
+function countByStatus(plan: IssuedPlan): Partial<Record<EngagementStatus, number>> {
+  const counts: Partial<Record<EngagementStatus, number>> = {};
+  plan.engagements.forEach(e => {
+    counts[e.status] = (counts[e.status] ?? 0) + 1;
+  });
+  return counts;
+}
+
+export default function PlanExecutionPanel({ plans }: PlanExecutionPanelProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // 有效期倒计时
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, []);
+
+  const [current, ...previous] = plans;
+  if (!current) return <div className="text-xs text-gray-500">No plan issued to Arma yet</div>;
+
+  const remaining = (new Date(current.expiresAt).getTime() - now) / 1000;
+  // 服务器只在推送时计算状态，过期以本地倒计时为准
+  const state = current.state === 'active' && remaining <= 0 ? 'expired' : current.state;
+  const counts = countByStatus(current);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-mono">Plan #{current.id}</span>
+        <span className={`text-xs px-2 py-1 rounded ${STATE_STYLES[state]}`}>{state.toUpperCase()}</span>
+        <span className="text-gray-400">Reason: {current.reason || 'N/A'}</span>
+        <span className="text-gray-400">Solver: {current.solver || 'N/A'}</span>
+        <span className="text-gray-400">Issued {new Date(current.issuedAt).toLocaleTimeString()}</span>
+        {state !== 'superseded' && (
+          <span className="text-gray-400">
+            {remaining > 0 ? `Expires in ${remaining.toFixed(1)}s` : `Expired ${(-remaining).toFixed(1)}s ago`}
+          </span>
+        )}
+        {current.unplannedShots > 0 && (
+          <span className="text-xs bg-yellow-700 px-2 py-1 rounded">{current.unplannedShots} unplanned shot(s)</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {STATUSES.filter(s => counts[s]).map(s => (
+          <span key={s} className={`px-2 py-1 rounded ${STATUS_STYLES[s]}`}>{s}: {counts[s]}</span>
+        ))}
+      </div>
+
+      {current.engagements.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-1 pr-3">Platform</th>
+                <th className="py-1 pr-3">Target</th>
+                <th className="py-1 pr-3">Wave</th>
+                <th className="py-1 pr-3">Munition</th>
+                <th className="py-1 pr-3">Status</th>
+                <th className="py-1 pr-3">Shots</th>
+                <th className="py-1 pr-3">Since</th>
+                <th className="py-1">Detail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {current.engagements.map((e, k) => (
+                <tr key={k} className="border-t border-gray-700">
+                  <td className="py-1 pr-3 font-mono">#{e.platformId}</td>
+                  <td className="py-1 pr-3 font-mono">#{e.targetId}{e.targetKilled && ' ☠️'}</td>
+                  <td className="py-1 pr-3">{e.wave}</td>
+                  <td className="py-1 pr-3">{getMunitionEmoji(e.munition)} ×{e.rounds}</td>
+                  <td className="py-1 pr-3">
+                    <span className={`px-1 rounded uppercase font-mono ${STATUS_STYLES[e.status]}`}>{e.status}</span>
+                  </td>
+                  <td className="py-1 pr-3">{e.shots}</td>
+                  <td className="py-1 pr-3 text-gray-400">{new Date(e.since).toLocaleTimeString()}</td>
+                  <td className="py-1 text-gray-400">{e.detail}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">Plan has no engagements</div>
+      )}
+
+      {previous.length > 0 && (
+        <div>
+          <div className="text-xs text-gray-400 mb-1">Previous plans</div>
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {previous.map(p => {
+              const c = countByStatus(p);
+              return (
+                <div key={p.id} className="text-xs bg-gray-700 rounded px-2 py-1 flex flex-wrap items-center gap-2">
+                  <span className="font-mono">#{p.id}</span>
+                  <span className="text-gray-400">{new Date(p.issuedAt).toLocaleTimeString()}</span>
+                  <span className="text-gray-400">{p.reason} / {p.solver}</span>
+                  {STATUSES.filter(s => c[s]).map(s => (
+                    <span key={s} className={`px-1 rounded ${STATUS_STYLES[s]}`}>{s} {c[s]}</span>
+                  ))}
+                  {p.unplannedShots > 0 && <span className="text-yellow-400">+{p.unplannedShots} unplanned</span>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
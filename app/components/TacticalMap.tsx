@@ -1,15 +1,18 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { PlatformState, TargetState, getRoleEmoji, getKindEmoji } from '../types';
+import { PlatformState, TargetState, Engagement, ThreatZone, getRoleEmoji, getKindEmoji } from '../types';
 
 interface TacticalMapProps {
   platforms: PlatformState[];
   targets: TargetState[];
+  engagements?: Engagement[];
+  threats?: ThreatZone[];
+  platformRisk?: Record<number, number>;
   isUpdating: boolean;
 }
 
-export default function TacticalMap({ platforms, targets, isUpdating }: TacticalMapProps) {
+export default function TacticalMap({ platforms, targets, engagements = [], threats = [], platformRisk = {}, isUpdating }: TacticalMapProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [scale, setScale] = useState(1);
   const [offset, setOffset] = useState({ x: 0, y: 0 });
@@ -131,6 +134,57 @@ export default function TacticalMap({ platforms, targets, isUpdating }: Tactical
       ctx.stroke();
     }
 
+    // 绘制防空威胁范围（红色半透明圆）
+    threats.forEach(zone => {
+      const center = worldToCanvas(zone.pos.x, zone.pos.y, bounds, width, height);
+      const edge = worldToCanvas(zone.pos.x + zone.radius, zone.pos.y, bounds, width, height);
+      const zoneRadius = Math.abs(edge.x - center.x);
+      ctx.fillStyle = 'rgba(239, 68, 68, 0.08)';
+      ctx.strokeStyle = 'rgba(239, 68, 68, 0.5)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, zoneRadius, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.stroke();
+    });
+
+    // 绘制平台航线（虚线，按航线顺序依次连接目标，标注波次和到达时间）
+    const platformById = new Map(platforms.map(p => [p.id, p]));
+    const targetById = new Map(targets.map(t => [t.id, t]));
+    const routes = new Map<number, Engagement[]>();
+    engagements.forEach(engagement => {
+      const stops = routes.get(engagement.platformId) ?? [];
+      // 同一目标的多次交战只画一个航点
+      if (!stops.some(s => s.targetId === engagement.targetId)) stops.push(engagement);
+      routes.set(engagement.platformId, stops);
+    });
+    routes.forEach((stops, platformId) => {
+      const platform = platformById.get(platformId);
+      if (!platform) return;
+
+      let from = worldToCanvas(platform.pos?.x ?? 0, platform.pos?.y ?? 0, bounds, width, height);
+      stops.sort((a, b) => a.routeOrder - b.routeOrder).forEach(stop => {
+        const target = targetById.get(stop.targetId);
+        if (!target) return;
+        const to = worldToCanvas(target.pos?.x ?? 0, target.pos?.y ?? 0, bounds, width, height);
+        ctx.strokeStyle = 'rgba(250, 204, 21, 0.6)';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = '#facc15';
+        ctx.font = '10px sans-serif';
+        ctx.textAlign = 'center';
+        const eta = stop.eta >= 0 ? ` ${stop.eta.toFixed(0)}s` : '';
+        ctx.fillText(`W${stop.wave}${eta}`, (from.x + to.x) / 2, (from.y + to.y) / 2 - 4);
+        from = to;
+      });
+    });
+
     // 绘制目标（红色方块）
     targets.forEach(target => {
       if (!target.alive) return;
@@ -212,7 +266,7 @@ export default function TacticalMap({ platforms, targets, isUpdating }: Tactical
       // 如果悬停，显示详细信息
       if (isHovered) {
         ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-        ctx.fillRect(canvasPos.x + 15, canvasPos.y - 40, 160, 75);
+        ctx.fillRect(canvasPos.x + 15, canvasPos.y - 40, 160, 90);
         ctx.fillStyle = '#ffffff';
         ctx.font = '11px sans-serif';
         ctx.textAlign = 'left';
@@ -221,6 +275,7 @@ export default function TacticalMap({ platforms, targets, isUpdating }: Tactical
         ctx.fillText(`Range: ${platform.maxRange.toFixed(0)}m`, canvasPos.x + 20, canvasPos.y + 5);
         const ammo = platform.ammo || { missile: 0, bomb: 0, rocket: 0 };
         ctx.fillText(`Ammo: M${ammo.missile} B${ammo.bomb} R${ammo.rocket}`, canvasPos.x + 20, canvasPos.y + 20);
+        ctx.fillText(`Risk: ${((platformRisk[platform.id] ?? 0) * 100).toFixed(0)}%`, canvasPos.x + 20, canvasPos.y + 35);
       }
     });
 
@@ -232,7 +287,7 @@ export default function TacticalMap({ platforms, targets, isUpdating }: Tactical
 
     // 绘制图例
     ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.fillRect(10, 10, 150, 80);
+    ctx.fillRect(10, 10, 150, 120);
     
     ctx.fillStyle = '#2563eb';
     ctx.beginPath();
@@ -247,12 +302,33 @@ export default function TacticalMap({ platforms, targets, isUpdating }: Tactical
     ctx.fillRect(20, 45, 10, 10);
     ctx.fillStyle = '#ffffff';
     ctx.fillText('Targets', 35, 55);
+
+    ctx.strokeStyle = '#facc15';
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(18, 70);
+    ctx.lineTo(32, 70);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText('Routes', 35, 75);
+
+    ctx.strokeStyle = 'rgba(239, 68, 68, 0.5)';
+    ctx.fillStyle = 'rgba(239, 68, 68, 0.08)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(25, 90, 6, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText('SAM Threat', 35, 95);
     
     ctx.fillStyle = '#6b7280';
     ctx.font = '10px sans-serif';
-    ctx.fillText(`Scale: ${scale.toFixed(1)}x`, 20, 75);
+    ctx.fillText(`Scale: ${scale.toFixed(1)}x`, 20, 115);
 
-  }, [platforms, targets, scale, offset, isUpdating, hoveredUnit, dpr]);
+  }, [platforms, targets, engagements, threats, platformRisk, scale, offset, isUpdating, hoveredUnit, dpr]);
 
   // 鼠标事件处理
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { 
+  ClientCommand,
   DashboardData, 
   PlatformState, 
   TargetState,
@@ -9,10 +10,16 @@ import {
   TargetKind,
   getRoleName,
   getKindName,
+  getMunitionEmoji,
   getRoleEmoji as getRoleEmojiUtil,
   getKindEmoji as getKindEmojiUtil
 } from './types';
 import TacticalMap from './components/TacticalMap';
+import ParetoChart from './components/ParetoChart';
+import ConstraintPanel from './components/ConstraintPanel';
+import ApprovalPanel from './components/ApprovalPanel';
+import CommandPanel from './components/CommandPanel';
+import PlanExecutionPanel from './components/PlanExecutionPanel';
 
 export default function Dashboard() {
   const [connected, setConnected] = useState(false);
@@ -20,7 +27,16 @@ export default function Dashboard() {
     timestamp: null,
     platforms: [],
     targets: [],
-    messageType: 'none'
+    messageType: 'none',
+    plan: null,
+    pareto: null,
+    threats: [],
+    platformRisk: {},
+    hitProbs: [],
+    constraints: [],
+    approval: { required: false, pending: null, last: null, delivered: true },
+    commands: [],
+    issuedPlans: []
   });
   const [ws, setWs] = useState<WebSocket | null>(null);
   const [updateCount, setUpdateCount] = useState(0);
@@ -104,6 +120,9 @@ export default function Dashboard() {
     return () => clearInterval(interval);
   }, [lastUpdateTime]);
 
+  // 发送运营人员命令
+  const sendCommand = (command: ClientCommand) => ws?.send(JSON.stringify(command));
+
   // 使用导入的辅助函数
   const getRoleEmoji = (role: PlatformRole) => getRoleEmojiUtil(role);
   const getKindEmoji = (kind: TargetKind) => getKindEmojiUtil(kind);
@@ -199,11 +218,256 @@ export default function Dashboard() {
             <TacticalMap 
               platforms={data.platforms} 
               targets={data.targets}
+              engagements={data.plan?.engagements}
+              threats={data.threats}
+              platformRisk={data.platformRisk}
               isUpdating={isUpdating}
             />
           </div>
         </div>
 
+        {/* Plan Approval Section */}
+        {data.approval?.required && (
+          <div className="mb-6">
+            <h2 className="text-xl font-bold mb-4 flex items-center">
+              <span className="mr-2">🛂</span> Plan Approval
+            </h2>
+            <div className={`bg-gray-800 rounded-lg p-4 border ${data.approval.pending ? 'border-yellow-500' : 'border-gray-700'}`}>
+              <ApprovalPanel
+                approval={data.approval}
+                targets={data.targets}
+                onApprove={(planId, engagements) => sendCommand({ type: 'approve_plan', planId, engagements })}
+                onReject={(planId) => sendCommand({ type: 'reject_plan', planId })}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Plan Section */}
+        {data.plan && (
+          <div className="mb-6">
+            <h2 className="text-xl font-bold mb-4 flex items-center">
+              <span className="mr-2">🧮</span> Latest Plan
+            </h2>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <div className="flex flex-wrap items-center gap-3 text-sm mb-3">
+                <span className={`text-xs px-2 py-1 rounded ${
+                  data.plan.status === 'ok' ? 'bg-green-600' : 'bg-red-600'
+                }`}>
+                  {data.plan.status.toUpperCase()}
+                </span>
+                <span className={`text-xs px-2 py-1 rounded ${
+                  data.plan.stats?.isValid ? 'bg-green-700' : 'bg-red-700'
+                }`}>
+                  {data.plan.stats?.isValid ? '✓ VALID' : '✗ INVALID'}
+                </span>
+                {data.plan.degraded && (
+                  <span className="text-xs bg-yellow-600 px-2 py-1 rounded">DEGRADED</span>
+                )}
+                {data.approval?.pending && (
+                  <span className="text-xs bg-yellow-600 px-2 py-1 rounded">PENDING APPROVAL</span>
+                )}
+                <span className="text-gray-400">Reason: {data.plan.reason || 'N/A'}</span>
+                <span className="text-gray-400">Solver: {data.plan.stats?.solver || 'N/A'}</span>
+                <span>📈 Fitness: {data.plan.bestFitness.toFixed(2)}</span>
+                <span>🎯 Coverage: {((data.plan.stats?.coverageRate ?? 0) * 100).toFixed(0)}%</span>
+                <span>🔗 Engagements: {data.plan.engagements.length}</span>
+                <span>🔄 Changed: {data.plan.stats?.changedAssignments ?? 0}</span>
+              </div>
+              {data.plan.errorMsg && (
+                <div className="text-xs text-yellow-400 mb-3">⚠️ {data.plan.errorMsg}</div>
+              )}
+              {data.plan.engagements.length > 0 && (
+                <div className="mb-3">
+                  <div className="text-xs text-gray-400 mb-2">🔗 Engagements:</div>
+                  <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                    <table className="w-full text-xs">
+                      <thead className="text-gray-400 text-left">
+                        <tr>
+                          <th className="px-2 py-1">Wave</th>
+                          <th className="px-2 py-1">Stop</th>
+                          <th className="px-2 py-1 text-right">ETA</th>
+                          <th className="px-2 py-1">Platform → Target</th>
+                          <th className="px-2 py-1">Munition</th>
+                          <th className="px-2 py-1 text-right">Kill Prob</th>
+                          <th className="px-2 py-1 text-right">Exp. Value</th>
+                          <th className="px-2 py-1 text-right">Cost</th>
+                          <th className="px-2 py-1 text-right">Net</th>
+                          <th className="px-2 py-1">Best Alternative</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {data.plan.engagements.map((e, idx) => (
+                          <tr key={idx} className="bg-gray-700 border-b border-gray-800">
+                            <td className="px-2 py-1">W{e.wave}</td>
+                            <td className="px-2 py-1">#{e.routeOrder + 1}</td>
+                            <td className="px-2 py-1 text-right">{e.eta >= 0 ? `${e.eta.toFixed(0)}s` : '-'}</td>
+                            <td className="px-2 py-1">#{e.platformId} → #{e.targetId}</td>
+                            <td className="px-2 py-1 text-gray-300">
+                              {getMunitionEmoji(e.munition)} {e.munition || 'any'} ×{e.rounds}
+                              {e.magazine && <span className="text-gray-400"> ({e.magazine})</span>}
+                            </td>
+                            <td className="px-2 py-1 text-right">
+                              {e.explanation ? `${(e.explanation.killProb * 100).toFixed(0)}%` : '-'}
+                            </td>
+                            <td className="px-2 py-1 text-right">{e.explanation?.expectedValue.toFixed(1) ?? '-'}</td>
+                            <td className="px-2 py-1 text-right">{e.explanation?.cost.toFixed(1) ?? '-'}</td>
+                            <td className="px-2 py-1 text-right">{e.explanation?.netGain.toFixed(1) ?? '-'}</td>
+                            <td className="px-2 py-1 text-gray-400">
+                              {e.explanation && e.explanation.alternativeTargetId >= 0
+                                ? `#${e.explanation.alternativeTargetId} (net ${e.explanation.alternativeGain.toFixed(1)})`
+                                : 'none'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+              {data.plan.simulation && (
+                <div className="mb-3">
+                  <div className="text-xs text-gray-400 mb-2">
+                    🎲 Outcome Simulation ({data.plan.simulation.trials} trials):
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                    <div className="bg-gray-700 rounded p-2">
+                      <div className="text-gray-400 mb-1">Value destroyed</div>
+                      <div>Mean {data.plan.simulation.value.mean.toFixed(1)} ± {data.plan.simulation.value.std.toFixed(1)}</div>
+                      <div className="text-gray-300">
+                        P5 {data.plan.simulation.value.p5.toFixed(1)} · P50 {data.plan.simulation.value.p50.toFixed(1)} · P95 {data.plan.simulation.value.p95.toFixed(1)}
+                      </div>
+                      <div className="flex items-end h-10 gap-px mt-2">
+                        {data.plan.simulation.value.histogram.map((share, idx) => (
+                          <div
+                            key={idx}
+                            className="flex-1 bg-blue-500"
+                            style={{ height: `${Math.max(share * 100, share > 0 ? 4 : 0)}%` }}
+                            title={`${idx * 10}-${idx * 10 + 10}% of total value: ${(share * 100).toFixed(1)}%`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                    <div className="bg-gray-700 rounded p-2">
+                      <div className="text-gray-400 mb-1">Target kill odds</div>
+                      <div className="max-h-24 overflow-y-auto space-y-0.5">
+                        {data.plan.simulation.targets.map(t => (
+                          <div key={t.targetId} className="flex justify-between">
+                            <span>Target #{t.targetId}</span>
+                            <span className={t.killProb < 0.7 ? 'text-yellow-400' : ''}>
+                              {(t.killProb * 100).toFixed(0)}% destroyed
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="bg-gray-700 rounded p-2">
+                      <div className="text-gray-400 mb-1">Expected ammo use</div>
+                      {Object.entries(data.plan.simulation.plannedRounds).map(([munition, planned]) => (
+                        <div key={munition} className="flex justify-between">
+                          <span>{getMunitionEmoji(munition)} {munition}</span>
+                          <span>{(data.plan!.simulation!.expectedRounds[munition] ?? 0).toFixed(1)} / {planned}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+              {data.plan.readiness.length > 0 && (
+                <div className="mb-4">
+                  <div className="text-xs text-gray-400 mb-2">⛽ Readiness ({data.plan.readiness.length}):</div>
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {data.plan.readiness.map((r, idx) => (
+                      <div key={idx} className={`text-xs rounded px-2 py-1 flex items-center justify-between ${
+                        r.excluded ? 'bg-red-900' : 'bg-yellow-900'
+                      }`}>
+                        <span>Platform #{r.platformId} {r.excluded ? 'excluded' : 'limited'}: {r.detail}</span>
+                        <span className="font-mono text-yellow-300 ml-2">{r.rule}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {data.plan.violations.length > 0 ? (
+                <div>
+                  <div className="text-xs text-gray-400 mb-2">🚫 Violations ({data.plan.violations.length}):</div>
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {data.plan.violations.map((v, idx) => (
+                      <div key={idx} className="text-xs bg-red-900 rounded px-2 py-1 flex items-center justify-between">
+                        <span>Platform #{v.platformId} → Target #{v.targetId}: {v.message}</span>
+                        <span className="font-mono text-red-300 ml-2">{v.rule}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="text-xs text-gray-500">No constraint violations</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Plan Execution Section */}
+        {data.issuedPlans.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-xl font-bold mb-4 flex items-center">
+              <span className="mr-2">📋</span> Plan Execution
+            </h2>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <PlanExecutionPanel plans={data.issuedPlans} />
+            </div>
+          </div>
+        )}
+
+        {/* Arma Commands Section */}
+        {data.platforms.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-xl font-bold mb-4 flex items-center">
+              <span className="mr-2">📨</span> Commands to Arma
+            </h2>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <CommandPanel
+                commands={data.commands}
+                engagements={data.plan?.engagements ?? []}
+                onSend={sendCommand}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Operator Constraints Section */}
+        {data.platforms.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-xl font-bold mb-4 flex items-center">
+              <span className="mr-2">📌</span> Operator Constraints
+            </h2>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <ConstraintPanel
+                constraints={data.constraints}
+                platforms={data.platforms}
+                targets={data.targets}
+                onAdd={(kind, platformId, targetId) => sendCommand({ type: kind, platformId, targetId })}
+                onRemove={(id) => sendCommand({ type: 'remove_constraint', id })}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Pareto Front Section */}
+        {data.pareto && data.pareto.points.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-xl font-bold mb-4 flex items-center">
+              <span className="mr-2">⚖️</span> Value / Cost Trade-off
+            </h2>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <ParetoChart
+                front={data.pareto}
+                onSelect={(planId) => sendCommand({ type: 'select_plan', planId })}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Platforms Section */}
         <div className="mb-6">
           <h2 className="text-xl font-bold mb-4 flex items-center">
@@ -214,6 +478,7 @@ export default function Dashboard() {
               data.platforms.map(p => {
                 const pos = p.pos || { x: 0, y: 0 };
                 const ammo = p.ammo || { missile: 0, bomb: 0, rocket: 0 };
+                const readiness = data.plan?.readiness.filter(r => r.platformId === p.id) ?? [];
                 return (
                   <div key={p.id} className={`platform-card bg-gray-800 rounded-lg p-4 border border-gray-700 ${
                     isUpdating ? 'data-update-pulse' : ''
@@ -230,7 +495,15 @@ export default function Dashboard() {
                       <div>🎯 Range: {p.maxRange.toFixed(0)}m</div>
                       <div>💥 Hit Prob: {(p.hitProb * 100).toFixed(0)}%</div>
                       <div>💰 Cost: {p.cost.toFixed(1)}</div>
+                      <div className={(data.platformRisk[p.id] ?? 0) > 0 ? 'text-red-400' : ''}>
+                        ⚠️ Risk: {((data.platformRisk[p.id] ?? 0) * 100).toFixed(0)}%
+                      </div>
                     </div>
+                    {readiness.map((r, idx) => (
+                      <div key={idx} className={`mt-2 text-xs ${r.excluded ? 'text-red-400' : 'text-yellow-400'}`} title={r.detail}>
+                        ⛽ {r.excluded ? 'Excluded' : 'Limited'}: {r.rule}
+                      </div>
+                    ))}
 
                     {/* 油量条 */}
                     {p.fuel !== undefined && (
@@ -341,6 +614,48 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Hit Probability Learning Section */}
+        {data.hitProbs.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-xl font-bold mb-4 flex items-center">
+              <span className="mr-2">📈</span> Hit Probability (Declared vs Observed)
+            </h2>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="text-gray-400 text-left">
+                  <tr>
+                    <th className="px-2 py-1">Platform Type</th>
+                    <th className="px-2 py-1">Munition</th>
+                    <th className="px-2 py-1">Target</th>
+                    <th className="px-2 py-1 text-right">Shots</th>
+                    <th className="px-2 py-1 text-right">Kills</th>
+                    <th className="px-2 py-1 text-right">Declared</th>
+                    <th className="px-2 py-1 text-right">Observed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.hitProbs.map((h, idx) => (
+                    <tr key={idx} className="bg-gray-700 border-b border-gray-800">
+                      <td className="px-2 py-1">{h.platformType || 'unknown'}</td>
+                      <td className="px-2 py-1 text-gray-300">{getMunitionEmoji(h.munition)} {h.munition || 'any'}</td>
+                      <td className="px-2 py-1">{getKindEmoji(h.targetKind)} {getKindName(h.targetKind)}</td>
+                      <td className="px-2 py-1 text-right">{h.shots}</td>
+                      <td className="px-2 py-1 text-right">{h.kills}</td>
+                      <td className="px-2 py-1 text-right">{(h.declared * 100).toFixed(0)}%</td>
+                      <td className={`px-2 py-1 text-right ${
+                        h.observed < h.declared - h.std ? 'text-red-400' :
+                        h.observed > h.declared + h.std ? 'text-green-400' : ''
+                      }`}>
+                        {(h.observed * 100).toFixed(0)}% ± {(h.std * 100).toFixed(0)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Data View */}
         <div className="mb-6">
           <div className="flex items-center justify-between mb-4">
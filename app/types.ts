@@ -66,13 +66,219 @@ export interface TargetState {
   tier: number;
   targetType?: string;  // 新增：目标类型名称（如 "Infantry", "Armor"）
   prerequisiteTargets?: number[];  // 新增：前置目标ID列表
+  threatRadius?: number;           // 防空威胁半径（0表示使用服务器默认值）
+  threatKillProb?: number;         // 威胁范围内对平台的击毁概率
 }
 
+export interface PlanStats {
+  computationTime: number;
+  iterations: number;
+  isValid: boolean;
+  coverageRate: number;
+  provenOptimal: boolean;
+  nodesExplored: number;
+  solver: string;
+  changedAssignments: number;  // 与上一方案相比改派的平台数
+}
+
+export interface Engagement {
+  platformId: number;
+  targetId: number;
+  munition: string;     // 弹药类别（"missile", "bomb", "rocket"）
+  magazine: string;     // 建议使用的弹夹类名
+  rounds: number;       // 发射数量
+  wave: number;         // 攻击波次
+  explanation?: EngagementExplanation;  // 决策解释
+  routeOrder: number;   // 在该平台航线中的顺序
+  eta: number;          // 预计到达时间（秒），-1表示未知
+}
+
+export interface EngagementExplanation {
+  expectedValue: number;        // 期望摧毁价值
+  killProb: number;             // 毁伤概率
+  cost: number;                 // 交战代价
+  netGain: number;              // 净收益
+  alternativeTargetId: number;  // 最佳替代目标（-1表示无）
+  alternativeGain: number;      // 替代目标的净收益
+}
+
+export interface PlanViolation {
+  platformId: number;
+  targetId: number;
+  rule: string;         // 违规规则（如 "out_of_range", "no_ammo"）
+  message: string;
+}
+
+export interface PlatformReadiness {
+  platformId: number;
+  rule: string;         // "bingo_fuel", "fuel_range", "damage_limit", "damage_penalty"
+  excluded: boolean;    // 平台不参与规划
+  detail: string;
+  unreachableTargets: number[];  // 燃油不足以往返的目标
+  hitFactor: number;    // 命中概率系数
+}
+
+export interface SimulationResult {
+  trials: number;
+  targets: { targetId: number; killProb: number }[];  // 方案攻击的目标，按被摧毁概率升序
+  value: {
+    mean: number;
+    std: number;
+    p5: number;
+    p50: number;
+    p95: number;
+    histogram: number[];  // 摧毁价值占存活目标总价值的比例，等分为10个区间
+  };
+  expectedRounds: Record<string, number>;  // 弹药类别 -> 期望消耗
+  plannedRounds: Record<string, number>;   // 弹药类别 -> 计划消耗
+}
+
+export interface PlanRecord {
+  timestamp: string;
+  reason: string;
+  status: string;
+  errorMsg: string;
+  degraded: boolean;
+  bestFitness: number;
+  assignment: Record<number, number>;  // platform_id -> target_id（兼容旧版插件）
+  waves: Record<number, number>;       // platform_id -> 波次
+  engagements: Engagement[];           // 完整交战列表（含弹药选择与波次）
+  stats: PlanStats | undefined;
+  violations: PlanViolation[];
+  readiness: PlatformReadiness[];       // 因燃油或损伤被排除或受限的平台
+  simulation: SimulationResult | null;  // 蒙特卡洛仿真结果
+}
+
+export interface ParetoPoint {
+  id: number;
+  weight: number | null;       // 代价权重（null表示主求解器方案）
+  expectedValue: number;       // 期望摧毁价值
+  cost: number;                // 总代价
+  engagements: Engagement[];
+}
+
+export interface ParetoFront {
+  timestamp: string;
+  points: ParetoPoint[];       // 按代价升序
+  activeId: number | null;     // 当前生效的方案
+  delivered: boolean;          // 选中的方案是否已发送给Arma
+}
+
+export interface ThreatZone {
+  targetId: number;
+  pos: Vec2;
+  radius: number;     // 威胁半径（米）
+  killProb: number;   // 范围内对平台的击毁概率
+}
+
+export interface HitProbEstimate {
+  platformType: string;
+  munition: string;     // 弹药类别，平台未上报弹药时为空
+  targetKind: TargetKind;
+  shots: number;        // 已判定结果的发射数
+  kills: number;        // 其中击毁目标的发射数
+  declared: number;     // 上报的单发毁伤概率（hitProb × 效能系数，各次发射平均）
+  observed: number;     // 贝叶斯后验均值
+  std: number;          // 后验标准差
+}
+
+export type ConstraintKind = 'pin' | 'forbid';
+
+export interface ConstraintStatus {
+  id: number;
+  kind: ConstraintKind;  // pin：必须攻击；forbid：不得攻击
+  platformId: number;
+  targetId: number;
+  state: 'active' | 'unsatisfiable' | 'obsolete';
+  reason: string;        // 非active时的原因
+}
+
+// approved：批准；edited：修改后批准；auto：超时自动批准；pareto：从帕累托前沿选择；rejected：拒绝
+export type ApprovalDecision = 'approved' | 'edited' | 'auto' | 'pareto' | 'rejected';
+
+export interface PendingPlan {
+  id: number;
+  timestamp: string;
+  reason: string;
+  since: number;                  // 开始等待审批的时间（ms）
+  autoApproveAt: number | null;   // 自动批准的时间（ms），null表示不自动批准
+  engagements: Engagement[];
+  editErrors: string[];           // 最近一次修改后批准被拒绝的原因（违反的规则）
+}
+
+export interface PlanApproval {
+  required: boolean;              // 是否开启审批模式
+  pending: PendingPlan | null;    // 等待审批的方案
+  last: { id: number; decision: ApprovalDecision; timestamp: string } | null;  // 最近一次审批决定
+  delivered: boolean;             // 最近批准的方案是否已发送给Arma
+}
+
+// 发给Arma的运营人员指令
+export interface CommandRecord {
+  id: number;
+  kind: 'replan' | 'abort_engagement' | 'set_plan_ttl';
+  summary: string;                 // 指令内容
+  state: 'queued' | 'delivered' | 'acknowledged' | 'failed';  // 排队 / 已随应答下发 / Arma执行成功 / 执行失败
+  createdAt: string;
+  deliveredAt: string | null;
+  acknowledgedAt: string | null;
+  errorMsg: string;                // 执行失败的原因
+}
+
+// 交战执行情况：等待执行 / 已开火 / 在下一个方案中继续 / 被取代前未执行 / 目标已摧毁或平台损失 / 运营人员中止
+export type EngagementStatus = 'pending' | 'executed' | 'reissued' | 'ignored' | 'obsolete' | 'aborted';
+
+export interface TrackedEngagement {
+  platformId: number;
+  targetId: number;
+  wave: number;
+  munition: string;
+  rounds: number;
+  status: EngagementStatus;
+  since: string;          // 首次下发时间
+  shots: number;          // 平台对该目标的开火次数
+  targetKilled: boolean;  // 执行后目标被摧毁
+  detail: string;         // 状态说明
+  updatedAt: string;
+}
+
+// 已下发给Arma的方案
+export interface IssuedPlan {
+  id: number;
+  reason: string;
+  solver: string;
+  issuedAt: string;
+  expiresAt: string;
+  state: 'active' | 'expired' | 'superseded';
+  engagements: TrackedEngagement[];
+  unplannedShots: number;  // 不属于方案的开火次数
+}
+
+// 仪表板经WebSocket发给服务器的命令（与server/commands.ts中的ClientCommand一致）
+export type ClientCommand =
+  | { type: 'select_plan'; planId: number }
+  | { type: 'pin' | 'forbid'; platformId: number; targetId: number }
+  | { type: 'remove_constraint'; id: number }
+  | { type: 'approve_plan'; planId: number; engagements?: { platformId: number; targetId: number }[] }
+  | { type: 'reject_plan'; planId: number }
+  | { type: 'replan' }
+  | { type: 'abort_engagement'; platformId: number; targetId: number }
+  | { type: 'set_plan_ttl'; ttlSec: number };
+
 export interface DashboardData {
   timestamp: string | null;
   platforms: PlatformState[];
   targets: TargetState[];
-  messageType: string;  // 'status_report', 'none'
+  messageType: string;  // 'status_report', 'plan_response', 'entity_killed', 'damage', 'fired', 'command_ack', 'none'
+  plan: PlanRecord | null;  // 最近一次规划结果
+  pareto: ParetoFront | null;  // 价值-代价帕累托前沿
+  threats: ThreatZone[];                 // 防空威胁范围
+  platformRisk: Record<number, number>;  // platform_id -> 当前位置被击毁概率
+  hitProbs: HitProbEstimate[];           // 上报与观测的单发毁伤概率
+  constraints: ConstraintStatus[];       // 运营人员约束及其状态
+  approval: PlanApproval;                // 方案审批状态
+  commands: CommandRecord[];             // 发给Arma的指令（最新的在前）
+  issuedPlans: IssuedPlan[];             // 已下发的方案及执行情况（最新的在前）
 }
 
 // 辅助函数：将枚举转换为显示名称
@@ -97,6 +303,15 @@ export function getKindName(kind: TargetKind): string {
   return names[kind] || 'Unknown';
 }
 
+export function getMunitionEmoji(munition: string): string {
+  const emojis: Record<string, string> = {
+    missile: '🚀',
+    bomb: '💣',
+    rocket: '🔥',
+  };
+  return emojis[munition] || '🎯';
+}
+
 export function getRoleEmoji(role: PlatformRole): string {
   const emojis: Record<PlatformRole, string> = {
     [PlatformRole.UNKNOWN]: '🚁',
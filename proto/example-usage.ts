@@ -90,6 +90,10 @@ function createStatusReportMessage(): Buffer {
           rocket: 0,
         },
         targetTypes: [1, 2],
+        platformType: 'B_Heli_Attack_01_dynamicLoadout_F',
+        magazines: [],
+        fuel: 0.8,
+        damage: 0,
       },
     ],
     targets: [
@@ -100,6 +104,10 @@ function createStatusReportMessage(): Buffer {
         alive: true,
         value: 50.0,
         tier: 1,
+        targetType: 'O_Soldier_F',
+        prerequisiteTargets: [],
+        threatRadius: 0,
+        threatKillProb: 0,
       },
     ],
   };
@@ -131,9 +139,21 @@ function createPlanResponseMessage(): Buffer {
       iterations: 100,
       isValid: true,
       coverageRate: 1.0,
+      provenOptimal: false,
+      nodesExplored: 0,
+      solver: 'greedy',
+      changedAssignments: 0,
     },
     ttlSec: 5.0,
     errorMsg: '',
+    waves: {
+      1: 0,
+      2: 0,
+    },
+    degraded: false,
+    engagements: [],
+    readiness: [],
+    commands: [],
   };
   
   const message = WTAMessage.create({
@@ -0,0 +1,15 @@
+/**
+ * 由 wta_messages.proto 生成 TypeScript 消息类型（npm run proto:gen）
+ * 需要 PATH 中有 protoc；ts-proto 插件按平台选择，Windows 下使用 .cmd 包装
+ */
+import { execFileSync } from 'child_process';
+import { join } from 'path';
+
+const plugin = join('node_modules', '.bin', process.platform === 'win32' ? 'protoc-gen-ts_proto.cmd' : 'protoc-gen-ts_proto');
+
+execFileSync('protoc', [
+  `--plugin=protoc-gen-ts_proto=${plugin}`,
+  `--ts_proto_out=${join('proto', 'generated')}`,
+  '--proto_path=proto',
+  join('proto', 'wta_messages.proto')
+], { stdio: 'inherit' });
@@ -163,6 +163,10 @@ export interface TargetState {
   targetType: string;
   /** 前置目标ID列表（时序约束必需） */
   prerequisiteTargets: number[];
+  /** 防空威胁半径（米），0表示使用服务器默认值（仅SAM） */
+  threatRadius: number;
+  /** 威胁范围内对平台的击毁概率，0表示使用服务器默认值 */
+  threatKillProb: number;
 }
 
 /** 战场状态上报 */
@@ -208,27 +212,83 @@ export interface PlanRequest {
   targets: TargetState[];
 }
 
+/** 交战条目：平台使用指定弹药攻击目标 */
+export interface Engagement {
+  platformId: number;
+  targetId: number;
+  /** 弹药类别："missile", "bomb", "rocket"（平台未上报弹药时为空） */
+  munition: string;
+  /** 建议使用的弹夹类名（无匹配弹夹时为空） */
+  magazine: string;
+  /** 发射数量 */
+  rounds: number;
+  /** 攻击波次（从0开始，满足前置约束与tier顺序） */
+  wave: number;
+  /** 决策解释 */
+  explanation:
+    | EngagementExplanation
+    | undefined;
+  /** 在该平台航线中的顺序（从0开始，同一目标的多次交战相同） */
+  routeOrder: number;
+  /** 预计到达目标的时间（秒，自方案时间戳起），-1表示未知 */
+  eta: number;
+}
+
+/** 交战决策解释（其他交战保持不变时的边际分析） */
+export interface EngagementExplanation {
+  /** 该交战带来的期望摧毁价值 */
+  expectedValue: number;
+  /** 单次交战毁伤概率 */
+  killProb: number;
+  /** 交战代价（不含只用于引导求解的方案稳定性偏置） */
+  cost: number;
+  /** expected_value - cost */
+  netGain: number;
+  /** 未被选择的最佳替代目标，-1表示没有可行替代 */
+  alternativeTargetId: number;
+  /** 改攻替代目标的净收益 */
+  alternativeGain: number;
+}
+
 /** 规划统计 */
 export interface PlanStats {
   computationTime: number;
   iterations: number;
   isValid: boolean;
   coverageRate: number;
+  /** 精确求解器已证明最优 */
+  provenOptimal: boolean;
+  /** 分支定界搜索节点数 */
+  nodesExplored: number;
+  /** 产生方案的求解器名称 */
+  solver: string;
+  /** 与上一方案相比交战目标发生变化的平台数 */
+  changedAssignments: number;
 }
 
 /** WTA规划响应 */
 export interface PlanResponse {
-  /** "ok", "error", "no_solution" */
+  /** "ok", "error", "no_solution", "hold"（方案等待运营人员审批，尚无已批准的方案） */
   status: string;
   timestamp: number;
   bestFitness: number;
-  /** platform_id -> target_id */
+  /** platform_id -> target_id（兼容旧版插件，平台有多个交战时取最早波次的一个） */
   assignment: { [key: number]: number };
   nPlatforms: number;
   nTargets: number;
   stats: PlanStats | undefined;
   ttlSec: number;
   errorMsg: string;
+  /** platform_id -> assignment中交战的攻击波次 */
+  waves: { [key: number]: number };
+  /** 外部求解器不可用，方案来自内置后备求解器 */
+  degraded: boolean;
+  /** 完整交战列表：一个平台可攻击多个目标，多个平台可攻击同一目标 */
+  engagements: Engagement[];
+  /** 因燃油或损伤被排除或受限的平台 */
+  readiness: PlatformReadiness[];
+  /** 运营人员指令，Arma执行后以CommandAck确认 */
+  commands: OperatorCommand[];
 }
 
 export interface PlanResponse_AssignmentEntry {
@@ -236,6 +296,65 @@ export interface PlanResponse_AssignmentEntry {
   value: number;
 }
 
+export interface PlanResponse_WavesEntry {
+  key: number;
+  value: number;
+}
+
+/** 平台战备状态：燃油/损伤规则对规划的影响 */
+export interface PlatformReadiness {
+  platformId: number;
+  /** "bingo_fuel", "fuel_range", "damage_limit", "damage_penalty" */
+  rule: string;
+  /** 平台不参与规划 */
+  excluded: boolean;
+  /** 人类可读说明 */
+  detail: string;
+  /** fuel_range：燃油不足以往返的目标 */
+  unreachableTargets: number[];
+  /** damage_penalty：命中概率系数 */
+  hitFactor: number;
+}
+
+/** 运营人员指令：由仪表板下达，服务器排队后随下一次ZMQ应答发给Arma */
+export interface OperatorCommand {
+  /** 指令ID，确认时回传 */
+  id: number;
+  /** 下达时间 */
+  timestamp: number;
+  replan?: ReplanCommand | undefined;
+  abortEngagement?: AbortEngagementCommand | undefined;
+  setPlanTtl?: SetPlanTtlCommand | undefined;
+}
+
+/** 立即发送reason为"manual"的PlanRequest */
+export interface ReplanCommand {
+}
+
+/** 中止平台对目标的交战（平台不再执行当前方案中的这条交战） */
+export interface AbortEngagementCommand {
+  platformId: number;
+  targetId: number;
+}
+
+/** 修改当前方案的有效期（之后的方案使用相同的ttl_sec） */
+export interface SetPlanTtlCommand {
+  ttlSec: number;
+}
+
+/** Arma对已收到指令的确认 */
+export interface CommandAck {
+  timestamp: number;
+  results: CommandResult[];
+}
+
+export interface CommandResult {
+  commandId: number;
+  success: boolean;
+  /** 执行失败的原因 */
+  errorMsg: string;
+}
+
 export interface WTAMessage {
   statusReport?: StatusReportEvent | undefined;
   entityKilled?: EntityKilledEvent | undefined;
@@ -243,6 +362,7 @@ export interface WTAMessage {
   fired?: FiredEvent | undefined;
   planRequest?: PlanRequest | undefined;
   planResponse?: PlanResponse | undefined;
+  commandAck?: CommandAck | undefined;
 }
 
 function createBaseVec2(): Vec2 {
@@ -829,7 +949,18 @@ export const PlatformState = {
 };
 
 function createBaseTargetState(): TargetState {
-  return { id: 0, kind: 0, pos: undefined, alive: false, value: 0, tier: 0, targetType: "", prerequisiteTargets: [] };
+  return {
+    id: 0,
+    kind: 0,
+    pos: undefined,
+    alive: false,
+    value: 0,
+    tier: 0,
+    targetType: "",
+    prerequisiteTargets: [],
+    threatRadius: 0,
+    threatKillProb: 0,
+  };
 }
 
 export const TargetState = {
@@ -860,6 +991,12 @@ export const TargetState = {
       writer.int32(v);
     }
     writer.ldelim();
+    if (message.threatRadius !== 0) {
+      writer.uint32(77).float(message.threatRadius);
+    }
+    if (message.threatKillProb !== 0) {
+      writer.uint32(85).float(message.threatKillProb);
+    }
     return writer;
   },
 
@@ -936,6 +1073,20 @@ export const TargetState = {
           }
 
           break;
+        case 9:
+          if (tag !== 77) {
+            break;
+          }
+
+          message.threatRadius = reader.float();
+          continue;
+        case 10:
+          if (tag !== 85) {
+            break;
+          }
+
+          message.threatKillProb = reader.float();
+          continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
         break;
@@ -957,6 +1108,8 @@ export const TargetState = {
       prerequisiteTargets: globalThis.Array.isArray(object?.prerequisiteTargets)
         ? object.prerequisiteTargets.map((e: any) => globalThis.Number(e))
         : [],
+      threatRadius: isSet(object.threatRadius) ? globalThis.Number(object.threatRadius) : 0,
+      threatKillProb: isSet(object.threatKillProb) ? globalThis.Number(object.threatKillProb) : 0,
     };
   },
 
@@ -986,6 +1139,12 @@ export const TargetState = {
     if (message.prerequisiteTargets?.length) {
       obj.prerequisiteTargets = message.prerequisiteTargets.map((e) => Math.round(e));
     }
+    if (message.threatRadius !== 0) {
+      obj.threatRadius = message.threatRadius;
+    }
+    if (message.threatKillProb !== 0) {
+      obj.threatKillProb = message.threatKillProb;
+    }
     return obj;
   },
 
@@ -1002,6 +1161,8 @@ export const TargetState = {
     message.tier = object.tier ?? 0;
     message.targetType = object.targetType ?? "";
     message.prerequisiteTargets = object.prerequisiteTargets?.map((e) => e) || [];
+    message.threatRadius = object.threatRadius ?? 0;
+    message.threatKillProb = object.threatKillProb ?? 0;
     return message;
   },
 };
@@ -1545,61 +1706,121 @@ export const PlanRequest = {
   },
 };
 
-function createBasePlanStats(): PlanStats {
-  return { computationTime: 0, iterations: 0, isValid: false, coverageRate: 0 };
+function createBaseEngagement(): Engagement {
+  return {
+    platformId: 0,
+    targetId: 0,
+    munition: "",
+    magazine: "",
+    rounds: 0,
+    wave: 0,
+    explanation: undefined,
+    routeOrder: 0,
+    eta: 0,
+  };
 }
 
-export const PlanStats = {
-  encode(message: PlanStats, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
-    if (message.computationTime !== 0) {
-      writer.uint32(9).double(message.computationTime);
+export const Engagement = {
+  encode(message: Engagement, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.platformId !== 0) {
+      writer.uint32(8).int32(message.platformId);
     }
-    if (message.iterations !== 0) {
-      writer.uint32(16).int32(message.iterations);
+    if (message.targetId !== 0) {
+      writer.uint32(16).int32(message.targetId);
     }
-    if (message.isValid !== false) {
-      writer.uint32(24).bool(message.isValid);
+    if (message.munition !== "") {
+      writer.uint32(26).string(message.munition);
     }
-    if (message.coverageRate !== 0) {
-      writer.uint32(33).double(message.coverageRate);
+    if (message.magazine !== "") {
+      writer.uint32(34).string(message.magazine);
+    }
+    if (message.rounds !== 0) {
+      writer.uint32(40).int32(message.rounds);
+    }
+    if (message.wave !== 0) {
+      writer.uint32(48).int32(message.wave);
+    }
+    if (message.explanation !== undefined) {
+      EngagementExplanation.encode(message.explanation, writer.uint32(58).fork()).ldelim();
+    }
+    if (message.routeOrder !== 0) {
+      writer.uint32(64).int32(message.routeOrder);
+    }
+    if (message.eta !== 0) {
+      writer.uint32(77).float(message.eta);
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): PlanStats {
+  decode(input: _m0.Reader | Uint8Array, length?: number): Engagement {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBasePlanStats();
+    const message = createBaseEngagement();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
         case 1:
-          if (tag !== 9) {
+          if (tag !== 8) {
             break;
           }
 
-          message.computationTime = reader.double();
+          message.platformId = reader.int32();
           continue;
         case 2:
           if (tag !== 16) {
             break;
           }
 
-          message.iterations = reader.int32();
+          message.targetId = reader.int32();
           continue;
         case 3:
-          if (tag !== 24) {
+          if (tag !== 26) {
             break;
           }
 
-          message.isValid = reader.bool();
+          message.munition = reader.string();
           continue;
         case 4:
-          if (tag !== 33) {
+          if (tag !== 34) {
             break;
           }
 
-          message.coverageRate = reader.double();
+          message.magazine = reader.string();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.rounds = reader.int32();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.wave = reader.int32();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.explanation = EngagementExplanation.decode(reader, reader.uint32());
+          continue;
+        case 8:
+          if (tag !== 64) {
+            break;
+          }
+
+          message.routeOrder = reader.int32();
+          continue;
+        case 9:
+          if (tag !== 77) {
+            break;
+          }
+
+          message.eta = reader.float();
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -1610,163 +1831,147 @@ export const PlanStats = {
     return message;
   },
 
-  fromJSON(object: any): PlanStats {
+  fromJSON(object: any): Engagement {
     return {
-      computationTime: isSet(object.computationTime) ? globalThis.Number(object.computationTime) : 0,
-      iterations: isSet(object.iterations) ? globalThis.Number(object.iterations) : 0,
-      isValid: isSet(object.isValid) ? globalThis.Boolean(object.isValid) : false,
-      coverageRate: isSet(object.coverageRate) ? globalThis.Number(object.coverageRate) : 0,
+      platformId: isSet(object.platformId) ? globalThis.Number(object.platformId) : 0,
+      targetId: isSet(object.targetId) ? globalThis.Number(object.targetId) : 0,
+      munition: isSet(object.munition) ? globalThis.String(object.munition) : "",
+      magazine: isSet(object.magazine) ? globalThis.String(object.magazine) : "",
+      rounds: isSet(object.rounds) ? globalThis.Number(object.rounds) : 0,
+      wave: isSet(object.wave) ? globalThis.Number(object.wave) : 0,
+      explanation: isSet(object.explanation) ? EngagementExplanation.fromJSON(object.explanation) : undefined,
+      routeOrder: isSet(object.routeOrder) ? globalThis.Number(object.routeOrder) : 0,
+      eta: isSet(object.eta) ? globalThis.Number(object.eta) : 0,
     };
   },
 
-  toJSON(message: PlanStats): unknown {
+  toJSON(message: Engagement): unknown {
     const obj: any = {};
-    if (message.computationTime !== 0) {
-      obj.computationTime = message.computationTime;
+    if (message.platformId !== 0) {
+      obj.platformId = Math.round(message.platformId);
     }
-    if (message.iterations !== 0) {
-      obj.iterations = Math.round(message.iterations);
+    if (message.targetId !== 0) {
+      obj.targetId = Math.round(message.targetId);
     }
-    if (message.isValid !== false) {
-      obj.isValid = message.isValid;
+    if (message.munition !== "") {
+      obj.munition = message.munition;
     }
-    if (message.coverageRate !== 0) {
-      obj.coverageRate = message.coverageRate;
+    if (message.magazine !== "") {
+      obj.magazine = message.magazine;
+    }
+    if (message.rounds !== 0) {
+      obj.rounds = Math.round(message.rounds);
+    }
+    if (message.wave !== 0) {
+      obj.wave = Math.round(message.wave);
+    }
+    if (message.explanation !== undefined) {
+      obj.explanation = EngagementExplanation.toJSON(message.explanation);
+    }
+    if (message.routeOrder !== 0) {
+      obj.routeOrder = Math.round(message.routeOrder);
+    }
+    if (message.eta !== 0) {
+      obj.eta = message.eta;
     }
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<PlanStats>, I>>(base?: I): PlanStats {
-    return PlanStats.fromPartial(base ?? ({} as any));
+  create<I extends Exact<DeepPartial<Engagement>, I>>(base?: I): Engagement {
+    return Engagement.fromPartial(base ?? ({} as any));
   },
-  fromPartial<I extends Exact<DeepPartial<PlanStats>, I>>(object: I): PlanStats {
-    const message = createBasePlanStats();
-    message.computationTime = object.computationTime ?? 0;
-    message.iterations = object.iterations ?? 0;
-    message.isValid = object.isValid ?? false;
-    message.coverageRate = object.coverageRate ?? 0;
+  fromPartial<I extends Exact<DeepPartial<Engagement>, I>>(object: I): Engagement {
+    const message = createBaseEngagement();
+    message.platformId = object.platformId ?? 0;
+    message.targetId = object.targetId ?? 0;
+    message.munition = object.munition ?? "";
+    message.magazine = object.magazine ?? "";
+    message.rounds = object.rounds ?? 0;
+    message.wave = object.wave ?? 0;
+    message.explanation = (object.explanation !== undefined && object.explanation !== null)
+      ? EngagementExplanation.fromPartial(object.explanation)
+      : undefined;
+    message.routeOrder = object.routeOrder ?? 0;
+    message.eta = object.eta ?? 0;
     return message;
   },
 };
 
-function createBasePlanResponse(): PlanResponse {
-  return {
-    status: "",
-    timestamp: 0,
-    bestFitness: 0,
-    assignment: {},
-    nPlatforms: 0,
-    nTargets: 0,
-    stats: undefined,
-    ttlSec: 0,
-    errorMsg: "",
-  };
+function createBaseEngagementExplanation(): EngagementExplanation {
+  return { expectedValue: 0, killProb: 0, cost: 0, netGain: 0, alternativeTargetId: 0, alternativeGain: 0 };
 }
 
-export const PlanResponse = {
-  encode(message: PlanResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
-    if (message.status !== "") {
-      writer.uint32(10).string(message.status);
-    }
-    if (message.timestamp !== 0) {
-      writer.uint32(17).double(message.timestamp);
-    }
-    if (message.bestFitness !== 0) {
-      writer.uint32(25).double(message.bestFitness);
+export const EngagementExplanation = {
+  encode(message: EngagementExplanation, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.expectedValue !== 0) {
+      writer.uint32(9).double(message.expectedValue);
     }
-    Object.entries(message.assignment).forEach(([key, value]) => {
-      PlanResponse_AssignmentEntry.encode({ key: key as any, value }, writer.uint32(34).fork()).ldelim();
-    });
-    if (message.nPlatforms !== 0) {
-      writer.uint32(40).int32(message.nPlatforms);
+    if (message.killProb !== 0) {
+      writer.uint32(17).double(message.killProb);
     }
-    if (message.nTargets !== 0) {
-      writer.uint32(48).int32(message.nTargets);
+    if (message.cost !== 0) {
+      writer.uint32(25).double(message.cost);
     }
-    if (message.stats !== undefined) {
-      PlanStats.encode(message.stats, writer.uint32(58).fork()).ldelim();
+    if (message.netGain !== 0) {
+      writer.uint32(33).double(message.netGain);
     }
-    if (message.ttlSec !== 0) {
-      writer.uint32(65).double(message.ttlSec);
+    if (message.alternativeTargetId !== 0) {
+      writer.uint32(40).int32(message.alternativeTargetId);
     }
-    if (message.errorMsg !== "") {
-      writer.uint32(74).string(message.errorMsg);
+    if (message.alternativeGain !== 0) {
+      writer.uint32(49).double(message.alternativeGain);
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): PlanResponse {
+  decode(input: _m0.Reader | Uint8Array, length?: number): EngagementExplanation {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBasePlanResponse();
+    const message = createBaseEngagementExplanation();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
         case 1:
-          if (tag !== 10) {
+          if (tag !== 9) {
             break;
           }
 
-          message.status = reader.string();
+          message.expectedValue = reader.double();
           continue;
         case 2:
           if (tag !== 17) {
             break;
           }
 
-          message.timestamp = reader.double();
+          message.killProb = reader.double();
           continue;
         case 3:
           if (tag !== 25) {
             break;
           }
 
-          message.bestFitness = reader.double();
+          message.cost = reader.double();
           continue;
         case 4:
-          if (tag !== 34) {
+          if (tag !== 33) {
             break;
           }
 
-          const entry4 = PlanResponse_AssignmentEntry.decode(reader, reader.uint32());
-          if (entry4.value !== undefined) {
-            message.assignment[entry4.key] = entry4.value;
-          }
+          message.netGain = reader.double();
           continue;
         case 5:
           if (tag !== 40) {
             break;
           }
 
-          message.nPlatforms = reader.int32();
+          message.alternativeTargetId = reader.int32();
           continue;
         case 6:
-          if (tag !== 48) {
-            break;
-          }
-
-          message.nTargets = reader.int32();
-          continue;
-        case 7:
-          if (tag !== 58) {
-            break;
-          }
-
-          message.stats = PlanStats.decode(reader, reader.uint32());
-          continue;
-        case 8:
-          if (tag !== 65) {
+          if (tag !== 49) {
             break;
           }
 
-          message.ttlSec = reader.double();
-          continue;
-        case 9:
-          if (tag !== 74) {
-            break;
-          }
-
-          message.errorMsg = reader.string();
+          message.alternativeGain = reader.double();
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -1777,110 +1982,1241 @@ export const PlanResponse = {
     return message;
   },
 
-  fromJSON(object: any): PlanResponse {
+  fromJSON(object: any): EngagementExplanation {
     return {
-      status: isSet(object.status) ? globalThis.String(object.status) : "",
-      timestamp: isSet(object.timestamp) ? globalThis.Number(object.timestamp) : 0,
-      bestFitness: isSet(object.bestFitness) ? globalThis.Number(object.bestFitness) : 0,
-      assignment: isObject(object.assignment)
-        ? Object.entries(object.assignment).reduce<{ [key: number]: number }>((acc, [key, value]) => {
-          acc[globalThis.Number(key)] = Number(value);
-          return acc;
-        }, {})
-        : {},
-      nPlatforms: isSet(object.nPlatforms) ? globalThis.Number(object.nPlatforms) : 0,
-      nTargets: isSet(object.nTargets) ? globalThis.Number(object.nTargets) : 0,
-      stats: isSet(object.stats) ? PlanStats.fromJSON(object.stats) : undefined,
-      ttlSec: isSet(object.ttlSec) ? globalThis.Number(object.ttlSec) : 0,
-      errorMsg: isSet(object.errorMsg) ? globalThis.String(object.errorMsg) : "",
+      expectedValue: isSet(object.expectedValue) ? globalThis.Number(object.expectedValue) : 0,
+      killProb: isSet(object.killProb) ? globalThis.Number(object.killProb) : 0,
+      cost: isSet(object.cost) ? globalThis.Number(object.cost) : 0,
+      netGain: isSet(object.netGain) ? globalThis.Number(object.netGain) : 0,
+      alternativeTargetId: isSet(object.alternativeTargetId) ? globalThis.Number(object.alternativeTargetId) : 0,
+      alternativeGain: isSet(object.alternativeGain) ? globalThis.Number(object.alternativeGain) : 0,
     };
   },
 
-  toJSON(message: PlanResponse): unknown {
+  toJSON(message: EngagementExplanation): unknown {
     const obj: any = {};
-    if (message.status !== "") {
-      obj.status = message.status;
+    if (message.expectedValue !== 0) {
+      obj.expectedValue = message.expectedValue;
     }
-    if (message.timestamp !== 0) {
-      obj.timestamp = message.timestamp;
+    if (message.killProb !== 0) {
+      obj.killProb = message.killProb;
     }
-    if (message.bestFitness !== 0) {
-      obj.bestFitness = message.bestFitness;
+    if (message.cost !== 0) {
+      obj.cost = message.cost;
     }
-    if (message.assignment) {
-      const entries = Object.entries(message.assignment);
-      if (entries.length > 0) {
-        obj.assignment = {};
-        entries.forEach(([k, v]) => {
-          obj.assignment[k] = Math.round(v);
-        });
+    if (message.netGain !== 0) {
+      obj.netGain = message.netGain;
+    }
+    if (message.alternativeTargetId !== 0) {
+      obj.alternativeTargetId = Math.round(message.alternativeTargetId);
+    }
+    if (message.alternativeGain !== 0) {
+      obj.alternativeGain = message.alternativeGain;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<EngagementExplanation>, I>>(base?: I): EngagementExplanation {
+    return EngagementExplanation.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<EngagementExplanation>, I>>(object: I): EngagementExplanation {
+    const message = createBaseEngagementExplanation();
+    message.expectedValue = object.expectedValue ?? 0;
+    message.killProb = object.killProb ?? 0;
+    message.cost = object.cost ?? 0;
+    message.netGain = object.netGain ?? 0;
+    message.alternativeTargetId = object.alternativeTargetId ?? 0;
+    message.alternativeGain = object.alternativeGain ?? 0;
+    return message;
+  },
+};
+
+function createBasePlanStats(): PlanStats {
+  return {
+    computationTime: 0,
+    iterations: 0,
+    isValid: false,
+    coverageRate: 0,
+    provenOptimal: false,
+    nodesExplored: 0,
+    solver: "",
+    changedAssignments: 0,
+  };
+}
+
+export const PlanStats = {
+  encode(message: PlanStats, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.computationTime !== 0) {
+      writer.uint32(9).double(message.computationTime);
+    }
+    if (message.iterations !== 0) {
+      writer.uint32(16).int32(message.iterations);
+    }
+    if (message.isValid !== false) {
+      writer.uint32(24).bool(message.isValid);
+    }
+    if (message.coverageRate !== 0) {
+      writer.uint32(33).double(message.coverageRate);
+    }
+    if (message.provenOptimal !== false) {
+      writer.uint32(40).bool(message.provenOptimal);
+    }
+    if (message.nodesExplored !== 0) {
+      writer.uint32(48).int32(message.nodesExplored);
+    }
+    if (message.solver !== "") {
+      writer.uint32(58).string(message.solver);
+    }
+    if (message.changedAssignments !== 0) {
+      writer.uint32(64).int32(message.changedAssignments);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): PlanStats {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBasePlanStats();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 9) {
+            break;
+          }
+
+          message.computationTime = reader.double();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.iterations = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.isValid = reader.bool();
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.coverageRate = reader.double();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.provenOptimal = reader.bool();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.nodesExplored = reader.int32();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.solver = reader.string();
+          continue;
+        case 8:
+          if (tag !== 64) {
+            break;
+          }
+
+          message.changedAssignments = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): PlanStats {
+    return {
+      computationTime: isSet(object.computationTime) ? globalThis.Number(object.computationTime) : 0,
+      iterations: isSet(object.iterations) ? globalThis.Number(object.iterations) : 0,
+      isValid: isSet(object.isValid) ? globalThis.Boolean(object.isValid) : false,
+      coverageRate: isSet(object.coverageRate) ? globalThis.Number(object.coverageRate) : 0,
+      provenOptimal: isSet(object.provenOptimal) ? globalThis.Boolean(object.provenOptimal) : false,
+      nodesExplored: isSet(object.nodesExplored) ? globalThis.Number(object.nodesExplored) : 0,
+      solver: isSet(object.solver) ? globalThis.String(object.solver) : "",
+      changedAssignments: isSet(object.changedAssignments) ? globalThis.Number(object.changedAssignments) : 0,
+    };
+  },
+
+  toJSON(message: PlanStats): unknown {
+    const obj: any = {};
+    if (message.computationTime !== 0) {
+      obj.computationTime = message.computationTime;
+    }
+    if (message.iterations !== 0) {
+      obj.iterations = Math.round(message.iterations);
+    }
+    if (message.isValid !== false) {
+      obj.isValid = message.isValid;
+    }
+    if (message.coverageRate !== 0) {
+      obj.coverageRate = message.coverageRate;
+    }
+    if (message.provenOptimal !== false) {
+      obj.provenOptimal = message.provenOptimal;
+    }
+    if (message.nodesExplored !== 0) {
+      obj.nodesExplored = Math.round(message.nodesExplored);
+    }
+    if (message.solver !== "") {
+      obj.solver = message.solver;
+    }
+    if (message.changedAssignments !== 0) {
+      obj.changedAssignments = Math.round(message.changedAssignments);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<PlanStats>, I>>(base?: I): PlanStats {
+    return PlanStats.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<PlanStats>, I>>(object: I): PlanStats {
+    const message = createBasePlanStats();
+    message.computationTime = object.computationTime ?? 0;
+    message.iterations = object.iterations ?? 0;
+    message.isValid = object.isValid ?? false;
+    message.coverageRate = object.coverageRate ?? 0;
+    message.provenOptimal = object.provenOptimal ?? false;
+    message.nodesExplored = object.nodesExplored ?? 0;
+    message.solver = object.solver ?? "";
+    message.changedAssignments = object.changedAssignments ?? 0;
+    return message;
+  },
+};
+
+function createBasePlanResponse(): PlanResponse {
+  return {
+    status: "",
+    timestamp: 0,
+    bestFitness: 0,
+    assignment: {},
+    nPlatforms: 0,
+    nTargets: 0,
+    stats: undefined,
+    ttlSec: 0,
+    errorMsg: "",
+    waves: {},
+    degraded: false,
+    engagements: [],
+    readiness: [],
+    commands: [],
+  };
+}
+
+export const PlanResponse = {
+  encode(message: PlanResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.status !== "") {
+      writer.uint32(10).string(message.status);
+    }
+    if (message.timestamp !== 0) {
+      writer.uint32(17).double(message.timestamp);
+    }
+    if (message.bestFitness !== 0) {
+      writer.uint32(25).double(message.bestFitness);
+    }
+    Object.entries(message.assignment).forEach(([key, value]) => {
+      PlanResponse_AssignmentEntry.encode({ key: key as any, value }, writer.uint32(34).fork()).ldelim();
+    });
+    if (message.nPlatforms !== 0) {
+      writer.uint32(40).int32(message.nPlatforms);
+    }
+    if (message.nTargets !== 0) {
+      writer.uint32(48).int32(message.nTargets);
+    }
+    if (message.stats !== undefined) {
+      PlanStats.encode(message.stats, writer.uint32(58).fork()).ldelim();
+    }
+    if (message.ttlSec !== 0) {
+      writer.uint32(65).double(message.ttlSec);
+    }
+    if (message.errorMsg !== "") {
+      writer.uint32(74).string(message.errorMsg);
+    }
+    Object.entries(message.waves).forEach(([key, value]) => {
+      PlanResponse_WavesEntry.encode({ key: key as any, value }, writer.uint32(82).fork()).ldelim();
+    });
+    if (message.degraded !== false) {
+      writer.uint32(88).bool(message.degraded);
+    }
+    for (const v of message.engagements) {
+      Engagement.encode(v!, writer.uint32(98).fork()).ldelim();
+    }
+    for (const v of message.readiness) {
+      PlatformReadiness.encode(v!, writer.uint32(106).fork()).ldelim();
+    }
+    for (const v of message.commands) {
+      OperatorCommand.encode(v!, writer.uint32(114).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): PlanResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBasePlanResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.status = reader.string();
+          continue;
+        case 2:
+          if (tag !== 17) {
+            break;
+          }
+
+          message.timestamp = reader.double();
+          continue;
+        case 3:
+          if (tag !== 25) {
+            break;
+          }
+
+          message.bestFitness = reader.double();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          const entry4 = PlanResponse_AssignmentEntry.decode(reader, reader.uint32());
+          if (entry4.value !== undefined) {
+            message.assignment[entry4.key] = entry4.value;
+          }
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.nPlatforms = reader.int32();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.nTargets = reader.int32();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.stats = PlanStats.decode(reader, reader.uint32());
+          continue;
+        case 8:
+          if (tag !== 65) {
+            break;
+          }
+
+          message.ttlSec = reader.double();
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.errorMsg = reader.string();
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          const entry10 = PlanResponse_WavesEntry.decode(reader, reader.uint32());
+          if (entry10.value !== undefined) {
+            message.waves[entry10.key] = entry10.value;
+          }
+          continue;
+        case 11:
+          if (tag !== 88) {
+            break;
+          }
+
+          message.degraded = reader.bool();
+          continue;
+        case 12:
+          if (tag !== 98) {
+            break;
+          }
+
+          message.engagements.push(Engagement.decode(reader, reader.uint32()));
+          continue;
+        case 13:
+          if (tag !== 106) {
+            break;
+          }
+
+          message.readiness.push(PlatformReadiness.decode(reader, reader.uint32()));
+          continue;
+        case 14:
+          if (tag !== 114) {
+            break;
+          }
+
+          message.commands.push(OperatorCommand.decode(reader, reader.uint32()));
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): PlanResponse {
+    return {
+      status: isSet(object.status) ? globalThis.String(object.status) : "",
+      timestamp: isSet(object.timestamp) ? globalThis.Number(object.timestamp) : 0,
+      bestFitness: isSet(object.bestFitness) ? globalThis.Number(object.bestFitness) : 0,
+      assignment: isObject(object.assignment)
+        ? Object.entries(object.assignment).reduce<{ [key: number]: number }>((acc, [key, value]) => {
+          acc[globalThis.Number(key)] = Number(value);
+          return acc;
+        }, {})
+        : {},
+      nPlatforms: isSet(object.nPlatforms) ? globalThis.Number(object.nPlatforms) : 0,
+      nTargets: isSet(object.nTargets) ? globalThis.Number(object.nTargets) : 0,
+      stats: isSet(object.stats) ? PlanStats.fromJSON(object.stats) : undefined,
+      ttlSec: isSet(object.ttlSec) ? globalThis.Number(object.ttlSec) : 0,
+      errorMsg: isSet(object.errorMsg) ? globalThis.String(object.errorMsg) : "",
+      waves: isObject(object.waves)
+        ? Object.entries(object.waves).reduce<{ [key: number]: number }>((acc, [key, value]) => {
+          acc[globalThis.Number(key)] = Number(value);
+          return acc;
+        }, {})
+        : {},
+      degraded: isSet(object.degraded) ? globalThis.Boolean(object.degraded) : false,
+      engagements: globalThis.Array.isArray(object?.engagements)
+        ? object.engagements.map((e: any) => Engagement.fromJSON(e))
+        : [],
+      readiness: globalThis.Array.isArray(object?.readiness)
+        ? object.readiness.map((e: any) => PlatformReadiness.fromJSON(e))
+        : [],
+      commands: globalThis.Array.isArray(object?.commands)
+        ? object.commands.map((e: any) => OperatorCommand.fromJSON(e))
+        : [],
+    };
+  },
+
+  toJSON(message: PlanResponse): unknown {
+    const obj: any = {};
+    if (message.status !== "") {
+      obj.status = message.status;
+    }
+    if (message.timestamp !== 0) {
+      obj.timestamp = message.timestamp;
+    }
+    if (message.bestFitness !== 0) {
+      obj.bestFitness = message.bestFitness;
+    }
+    if (message.assignment) {
+      const entries = Object.entries(message.assignment);
+      if (entries.length > 0) {
+        obj.assignment = {};
+        entries.forEach(([k, v]) => {
+          obj.assignment[k] = Math.round(v);
+        });
+      }
+    }
+    if (message.nPlatforms !== 0) {
+      obj.nPlatforms = Math.round(message.nPlatforms);
+    }
+    if (message.nTargets !== 0) {
+      obj.nTargets = Math.round(message.nTargets);
+    }
+    if (message.stats !== undefined) {
+      obj.stats = PlanStats.toJSON(message.stats);
+    }
+    if (message.ttlSec !== 0) {
+      obj.ttlSec = message.ttlSec;
+    }
+    if (message.errorMsg !== "") {
+      obj.errorMsg = message.errorMsg;
+    }
+    if (message.waves) {
+      const entries = Object.entries(message.waves);
+      if (entries.length > 0) {
+        obj.waves = {};
+        entries.forEach(([k, v]) => {
+          obj.waves[k] = Math.round(v);
+        });
+      }
+    }
+    if (message.degraded !== false) {
+      obj.degraded = message.degraded;
+    }
+    if (message.engagements?.length) {
+      obj.engagements = message.engagements.map((e) => Engagement.toJSON(e));
+    }
+    if (message.readiness?.length) {
+      obj.readiness = message.readiness.map((e) => PlatformReadiness.toJSON(e));
+    }
+    if (message.commands?.length) {
+      obj.commands = message.commands.map((e) => OperatorCommand.toJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<PlanResponse>, I>>(base?: I): PlanResponse {
+    return PlanResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<PlanResponse>, I>>(object: I): PlanResponse {
+    const message = createBasePlanResponse();
+    message.status = object.status ?? "";
+    message.timestamp = object.timestamp ?? 0;
+    message.bestFitness = object.bestFitness ?? 0;
+    message.assignment = Object.entries(object.assignment ?? {}).reduce<{ [key: number]: number }>(
+      (acc, [key, value]) => {
+        if (value !== undefined) {
+          acc[globalThis.Number(key)] = globalThis.Number(value);
+        }
+        return acc;
+      },
+      {},
+    );
+    message.nPlatforms = object.nPlatforms ?? 0;
+    message.nTargets = object.nTargets ?? 0;
+    message.stats = (object.stats !== undefined && object.stats !== null)
+      ? PlanStats.fromPartial(object.stats)
+      : undefined;
+    message.ttlSec = object.ttlSec ?? 0;
+    message.errorMsg = object.errorMsg ?? "";
+    message.waves = Object.entries(object.waves ?? {}).reduce<{ [key: number]: number }>((acc, [key, value]) => {
+      if (value !== undefined) {
+        acc[globalThis.Number(key)] = globalThis.Number(value);
+      }
+      return acc;
+    }, {});
+    message.degraded = object.degraded ?? false;
+    message.engagements = object.engagements?.map((e) => Engagement.fromPartial(e)) || [];
+    message.readiness = object.readiness?.map((e) => PlatformReadiness.fromPartial(e)) || [];
+    message.commands = object.commands?.map((e) => OperatorCommand.fromPartial(e)) || [];
+    return message;
+  },
+};
+
+function createBasePlanResponse_AssignmentEntry(): PlanResponse_AssignmentEntry {
+  return { key: 0, value: 0 };
+}
+
+export const PlanResponse_AssignmentEntry = {
+  encode(message: PlanResponse_AssignmentEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.key !== 0) {
+      writer.uint32(8).int32(message.key);
+    }
+    if (message.value !== 0) {
+      writer.uint32(16).int32(message.value);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): PlanResponse_AssignmentEntry {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBasePlanResponse_AssignmentEntry();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.key = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.value = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): PlanResponse_AssignmentEntry {
+    return {
+      key: isSet(object.key) ? globalThis.Number(object.key) : 0,
+      value: isSet(object.value) ? globalThis.Number(object.value) : 0,
+    };
+  },
+
+  toJSON(message: PlanResponse_AssignmentEntry): unknown {
+    const obj: any = {};
+    if (message.key !== 0) {
+      obj.key = Math.round(message.key);
+    }
+    if (message.value !== 0) {
+      obj.value = Math.round(message.value);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<PlanResponse_AssignmentEntry>, I>>(base?: I): PlanResponse_AssignmentEntry {
+    return PlanResponse_AssignmentEntry.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<PlanResponse_AssignmentEntry>, I>>(object: I): PlanResponse_AssignmentEntry {
+    const message = createBasePlanResponse_AssignmentEntry();
+    message.key = object.key ?? 0;
+    message.value = object.value ?? 0;
+    return message;
+  },
+};
+
+function createBasePlanResponse_WavesEntry(): PlanResponse_WavesEntry {
+  return { key: 0, value: 0 };
+}
+
+export const PlanResponse_WavesEntry = {
+  encode(message: PlanResponse_WavesEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.key !== 0) {
+      writer.uint32(8).int32(message.key);
+    }
+    if (message.value !== 0) {
+      writer.uint32(16).int32(message.value);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): PlanResponse_WavesEntry {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBasePlanResponse_WavesEntry();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.key = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.value = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): PlanResponse_WavesEntry {
+    return {
+      key: isSet(object.key) ? globalThis.Number(object.key) : 0,
+      value: isSet(object.value) ? globalThis.Number(object.value) : 0,
+    };
+  },
+
+  toJSON(message: PlanResponse_WavesEntry): unknown {
+    const obj: any = {};
+    if (message.key !== 0) {
+      obj.key = Math.round(message.key);
+    }
+    if (message.value !== 0) {
+      obj.value = Math.round(message.value);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<PlanResponse_WavesEntry>, I>>(base?: I): PlanResponse_WavesEntry {
+    return PlanResponse_WavesEntry.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<PlanResponse_WavesEntry>, I>>(object: I): PlanResponse_WavesEntry {
+    const message = createBasePlanResponse_WavesEntry();
+    message.key = object.key ?? 0;
+    message.value = object.value ?? 0;
+    return message;
+  },
+};
+
+function createBasePlatformReadiness(): PlatformReadiness {
+  return { platformId: 0, rule: "", excluded: false, detail: "", unreachableTargets: [], hitFactor: 0 };
+}
+
+export const PlatformReadiness = {
+  encode(message: PlatformReadiness, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.platformId !== 0) {
+      writer.uint32(8).int32(message.platformId);
+    }
+    if (message.rule !== "") {
+      writer.uint32(18).string(message.rule);
+    }
+    if (message.excluded !== false) {
+      writer.uint32(24).bool(message.excluded);
+    }
+    if (message.detail !== "") {
+      writer.uint32(34).string(message.detail);
+    }
+    writer.uint32(42).fork();
+    for (const v of message.unreachableTargets) {
+      writer.int32(v);
+    }
+    writer.ldelim();
+    if (message.hitFactor !== 0) {
+      writer.uint32(53).float(message.hitFactor);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): PlatformReadiness {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBasePlatformReadiness();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.platformId = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.rule = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.excluded = reader.bool();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.detail = reader.string();
+          continue;
+        case 5:
+          if (tag === 40) {
+            message.unreachableTargets.push(reader.int32());
+
+            continue;
+          }
+
+          if (tag === 42) {
+            const end2 = reader.uint32() + reader.pos;
+            while (reader.pos < end2) {
+              message.unreachableTargets.push(reader.int32());
+            }
+
+            continue;
+          }
+
+          break;
+        case 6:
+          if (tag !== 53) {
+            break;
+          }
+
+          message.hitFactor = reader.float();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): PlatformReadiness {
+    return {
+      platformId: isSet(object.platformId) ? globalThis.Number(object.platformId) : 0,
+      rule: isSet(object.rule) ? globalThis.String(object.rule) : "",
+      excluded: isSet(object.excluded) ? globalThis.Boolean(object.excluded) : false,
+      detail: isSet(object.detail) ? globalThis.String(object.detail) : "",
+      unreachableTargets: globalThis.Array.isArray(object?.unreachableTargets)
+        ? object.unreachableTargets.map((e: any) => globalThis.Number(e))
+        : [],
+      hitFactor: isSet(object.hitFactor) ? globalThis.Number(object.hitFactor) : 0,
+    };
+  },
+
+  toJSON(message: PlatformReadiness): unknown {
+    const obj: any = {};
+    if (message.platformId !== 0) {
+      obj.platformId = Math.round(message.platformId);
+    }
+    if (message.rule !== "") {
+      obj.rule = message.rule;
+    }
+    if (message.excluded !== false) {
+      obj.excluded = message.excluded;
+    }
+    if (message.detail !== "") {
+      obj.detail = message.detail;
+    }
+    if (message.unreachableTargets?.length) {
+      obj.unreachableTargets = message.unreachableTargets.map((e) => Math.round(e));
+    }
+    if (message.hitFactor !== 0) {
+      obj.hitFactor = message.hitFactor;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<PlatformReadiness>, I>>(base?: I): PlatformReadiness {
+    return PlatformReadiness.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<PlatformReadiness>, I>>(object: I): PlatformReadiness {
+    const message = createBasePlatformReadiness();
+    message.platformId = object.platformId ?? 0;
+    message.rule = object.rule ?? "";
+    message.excluded = object.excluded ?? false;
+    message.detail = object.detail ?? "";
+    message.unreachableTargets = object.unreachableTargets?.map((e) => e) || [];
+    message.hitFactor = object.hitFactor ?? 0;
+    return message;
+  },
+};
+
+function createBaseOperatorCommand(): OperatorCommand {
+  return { id: 0, timestamp: 0, replan: undefined, abortEngagement: undefined, setPlanTtl: undefined };
+}
+
+export const OperatorCommand = {
+  encode(message: OperatorCommand, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.timestamp !== 0) {
+      writer.uint32(17).double(message.timestamp);
+    }
+    if (message.replan !== undefined) {
+      ReplanCommand.encode(message.replan, writer.uint32(26).fork()).ldelim();
+    }
+    if (message.abortEngagement !== undefined) {
+      AbortEngagementCommand.encode(message.abortEngagement, writer.uint32(34).fork()).ldelim();
+    }
+    if (message.setPlanTtl !== undefined) {
+      SetPlanTtlCommand.encode(message.setPlanTtl, writer.uint32(42).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): OperatorCommand {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseOperatorCommand();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 17) {
+            break;
+          }
+
+          message.timestamp = reader.double();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.replan = ReplanCommand.decode(reader, reader.uint32());
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.abortEngagement = AbortEngagementCommand.decode(reader, reader.uint32());
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.setPlanTtl = SetPlanTtlCommand.decode(reader, reader.uint32());
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): OperatorCommand {
+    return {
+      id: isSet(object.id) ? globalThis.Number(object.id) : 0,
+      timestamp: isSet(object.timestamp) ? globalThis.Number(object.timestamp) : 0,
+      replan: isSet(object.replan) ? ReplanCommand.fromJSON(object.replan) : undefined,
+      abortEngagement: isSet(object.abortEngagement)
+        ? AbortEngagementCommand.fromJSON(object.abortEngagement)
+        : undefined,
+      setPlanTtl: isSet(object.setPlanTtl) ? SetPlanTtlCommand.fromJSON(object.setPlanTtl) : undefined,
+    };
+  },
+
+  toJSON(message: OperatorCommand): unknown {
+    const obj: any = {};
+    if (message.id !== 0) {
+      obj.id = Math.round(message.id);
+    }
+    if (message.timestamp !== 0) {
+      obj.timestamp = message.timestamp;
+    }
+    if (message.replan !== undefined) {
+      obj.replan = ReplanCommand.toJSON(message.replan);
+    }
+    if (message.abortEngagement !== undefined) {
+      obj.abortEngagement = AbortEngagementCommand.toJSON(message.abortEngagement);
+    }
+    if (message.setPlanTtl !== undefined) {
+      obj.setPlanTtl = SetPlanTtlCommand.toJSON(message.setPlanTtl);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<OperatorCommand>, I>>(base?: I): OperatorCommand {
+    return OperatorCommand.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<OperatorCommand>, I>>(object: I): OperatorCommand {
+    const message = createBaseOperatorCommand();
+    message.id = object.id ?? 0;
+    message.timestamp = object.timestamp ?? 0;
+    message.replan = (object.replan !== undefined && object.replan !== null)
+      ? ReplanCommand.fromPartial(object.replan)
+      : undefined;
+    message.abortEngagement = (object.abortEngagement !== undefined && object.abortEngagement !== null)
+      ? AbortEngagementCommand.fromPartial(object.abortEngagement)
+      : undefined;
+    message.setPlanTtl = (object.setPlanTtl !== undefined && object.setPlanTtl !== null)
+      ? SetPlanTtlCommand.fromPartial(object.setPlanTtl)
+      : undefined;
+    return message;
+  },
+};
+
+function createBaseReplanCommand(): ReplanCommand {
+  return {};
+}
+
+export const ReplanCommand = {
+  encode(_: ReplanCommand, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): ReplanCommand {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseReplanCommand();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
       }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
     }
-    if (message.nPlatforms !== 0) {
-      obj.nPlatforms = Math.round(message.nPlatforms);
+    return message;
+  },
+
+  fromJSON(_: any): ReplanCommand {
+    return {};
+  },
+
+  toJSON(_: ReplanCommand): unknown {
+    const obj: any = {};
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ReplanCommand>, I>>(base?: I): ReplanCommand {
+    return ReplanCommand.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<ReplanCommand>, I>>(_: I): ReplanCommand {
+    const message = createBaseReplanCommand();
+    return message;
+  },
+};
+
+function createBaseAbortEngagementCommand(): AbortEngagementCommand {
+  return { platformId: 0, targetId: 0 };
+}
+
+export const AbortEngagementCommand = {
+  encode(message: AbortEngagementCommand, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.platformId !== 0) {
+      writer.uint32(8).int32(message.platformId);
     }
-    if (message.nTargets !== 0) {
-      obj.nTargets = Math.round(message.nTargets);
+    if (message.targetId !== 0) {
+      writer.uint32(16).int32(message.targetId);
     }
-    if (message.stats !== undefined) {
-      obj.stats = PlanStats.toJSON(message.stats);
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): AbortEngagementCommand {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseAbortEngagementCommand();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.platformId = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.targetId = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): AbortEngagementCommand {
+    return {
+      platformId: isSet(object.platformId) ? globalThis.Number(object.platformId) : 0,
+      targetId: isSet(object.targetId) ? globalThis.Number(object.targetId) : 0,
+    };
+  },
+
+  toJSON(message: AbortEngagementCommand): unknown {
+    const obj: any = {};
+    if (message.platformId !== 0) {
+      obj.platformId = Math.round(message.platformId);
+    }
+    if (message.targetId !== 0) {
+      obj.targetId = Math.round(message.targetId);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<AbortEngagementCommand>, I>>(base?: I): AbortEngagementCommand {
+    return AbortEngagementCommand.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<AbortEngagementCommand>, I>>(object: I): AbortEngagementCommand {
+    const message = createBaseAbortEngagementCommand();
+    message.platformId = object.platformId ?? 0;
+    message.targetId = object.targetId ?? 0;
+    return message;
+  },
+};
+
+function createBaseSetPlanTtlCommand(): SetPlanTtlCommand {
+  return { ttlSec: 0 };
+}
+
+export const SetPlanTtlCommand = {
+  encode(message: SetPlanTtlCommand, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.ttlSec !== 0) {
+      writer.uint32(9).double(message.ttlSec);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): SetPlanTtlCommand {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseSetPlanTtlCommand();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 9) {
+            break;
+          }
+
+          message.ttlSec = reader.double();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
     }
+    return message;
+  },
+
+  fromJSON(object: any): SetPlanTtlCommand {
+    return { ttlSec: isSet(object.ttlSec) ? globalThis.Number(object.ttlSec) : 0 };
+  },
+
+  toJSON(message: SetPlanTtlCommand): unknown {
+    const obj: any = {};
     if (message.ttlSec !== 0) {
       obj.ttlSec = message.ttlSec;
     }
-    if (message.errorMsg !== "") {
-      obj.errorMsg = message.errorMsg;
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<SetPlanTtlCommand>, I>>(base?: I): SetPlanTtlCommand {
+    return SetPlanTtlCommand.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<SetPlanTtlCommand>, I>>(object: I): SetPlanTtlCommand {
+    const message = createBaseSetPlanTtlCommand();
+    message.ttlSec = object.ttlSec ?? 0;
+    return message;
+  },
+};
+
+function createBaseCommandAck(): CommandAck {
+  return { timestamp: 0, results: [] };
+}
+
+export const CommandAck = {
+  encode(message: CommandAck, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.timestamp !== 0) {
+      writer.uint32(9).double(message.timestamp);
+    }
+    for (const v of message.results) {
+      CommandResult.encode(v!, writer.uint32(18).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CommandAck {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCommandAck();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 9) {
+            break;
+          }
+
+          message.timestamp = reader.double();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.results.push(CommandResult.decode(reader, reader.uint32()));
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): CommandAck {
+    return {
+      timestamp: isSet(object.timestamp) ? globalThis.Number(object.timestamp) : 0,
+      results: globalThis.Array.isArray(object?.results)
+        ? object.results.map((e: any) => CommandResult.fromJSON(e))
+        : [],
+    };
+  },
+
+  toJSON(message: CommandAck): unknown {
+    const obj: any = {};
+    if (message.timestamp !== 0) {
+      obj.timestamp = message.timestamp;
+    }
+    if (message.results?.length) {
+      obj.results = message.results.map((e) => CommandResult.toJSON(e));
     }
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<PlanResponse>, I>>(base?: I): PlanResponse {
-    return PlanResponse.fromPartial(base ?? ({} as any));
+  create<I extends Exact<DeepPartial<CommandAck>, I>>(base?: I): CommandAck {
+    return CommandAck.fromPartial(base ?? ({} as any));
   },
-  fromPartial<I extends Exact<DeepPartial<PlanResponse>, I>>(object: I): PlanResponse {
-    const message = createBasePlanResponse();
-    message.status = object.status ?? "";
+  fromPartial<I extends Exact<DeepPartial<CommandAck>, I>>(object: I): CommandAck {
+    const message = createBaseCommandAck();
     message.timestamp = object.timestamp ?? 0;
-    message.bestFitness = object.bestFitness ?? 0;
-    message.assignment = Object.entries(object.assignment ?? {}).reduce<{ [key: number]: number }>(
-      (acc, [key, value]) => {
-        if (value !== undefined) {
-          acc[globalThis.Number(key)] = globalThis.Number(value);
-        }
-        return acc;
-      },
-      {},
-    );
-    message.nPlatforms = object.nPlatforms ?? 0;
-    message.nTargets = object.nTargets ?? 0;
-    message.stats = (object.stats !== undefined && object.stats !== null)
-      ? PlanStats.fromPartial(object.stats)
-      : undefined;
-    message.ttlSec = object.ttlSec ?? 0;
-    message.errorMsg = object.errorMsg ?? "";
+    message.results = object.results?.map((e) => CommandResult.fromPartial(e)) || [];
     return message;
   },
 };
 
-function createBasePlanResponse_AssignmentEntry(): PlanResponse_AssignmentEntry {
-  return { key: 0, value: 0 };
+function createBaseCommandResult(): CommandResult {
+  return { commandId: 0, success: false, errorMsg: "" };
 }
 
-export const PlanResponse_AssignmentEntry = {
-  encode(message: PlanResponse_AssignmentEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
-    if (message.key !== 0) {
-      writer.uint32(8).int32(message.key);
+export const CommandResult = {
+  encode(message: CommandResult, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.commandId !== 0) {
+      writer.uint32(8).int32(message.commandId);
     }
-    if (message.value !== 0) {
-      writer.uint32(16).int32(message.value);
+    if (message.success !== false) {
+      writer.uint32(16).bool(message.success);
+    }
+    if (message.errorMsg !== "") {
+      writer.uint32(26).string(message.errorMsg);
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): PlanResponse_AssignmentEntry {
+  decode(input: _m0.Reader | Uint8Array, length?: number): CommandResult {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBasePlanResponse_AssignmentEntry();
+    const message = createBaseCommandResult();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
@@ -1889,14 +3225,21 @@ export const PlanResponse_AssignmentEntry = {
             break;
           }
 
-          message.key = reader.int32();
+          message.commandId = reader.int32();
           continue;
         case 2:
           if (tag !== 16) {
             break;
           }
 
-          message.value = reader.int32();
+          message.success = reader.bool();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.errorMsg = reader.string();
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -1907,31 +3250,36 @@ export const PlanResponse_AssignmentEntry = {
     return message;
   },
 
-  fromJSON(object: any): PlanResponse_AssignmentEntry {
+  fromJSON(object: any): CommandResult {
     return {
-      key: isSet(object.key) ? globalThis.Number(object.key) : 0,
-      value: isSet(object.value) ? globalThis.Number(object.value) : 0,
+      commandId: isSet(object.commandId) ? globalThis.Number(object.commandId) : 0,
+      success: isSet(object.success) ? globalThis.Boolean(object.success) : false,
+      errorMsg: isSet(object.errorMsg) ? globalThis.String(object.errorMsg) : "",
     };
   },
 
-  toJSON(message: PlanResponse_AssignmentEntry): unknown {
+  toJSON(message: CommandResult): unknown {
     const obj: any = {};
-    if (message.key !== 0) {
-      obj.key = Math.round(message.key);
+    if (message.commandId !== 0) {
+      obj.commandId = Math.round(message.commandId);
     }
-    if (message.value !== 0) {
-      obj.value = Math.round(message.value);
+    if (message.success !== false) {
+      obj.success = message.success;
+    }
+    if (message.errorMsg !== "") {
+      obj.errorMsg = message.errorMsg;
     }
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<PlanResponse_AssignmentEntry>, I>>(base?: I): PlanResponse_AssignmentEntry {
-    return PlanResponse_AssignmentEntry.fromPartial(base ?? ({} as any));
+  create<I extends Exact<DeepPartial<CommandResult>, I>>(base?: I): CommandResult {
+    return CommandResult.fromPartial(base ?? ({} as any));
   },
-  fromPartial<I extends Exact<DeepPartial<PlanResponse_AssignmentEntry>, I>>(object: I): PlanResponse_AssignmentEntry {
-    const message = createBasePlanResponse_AssignmentEntry();
-    message.key = object.key ?? 0;
-    message.value = object.value ?? 0;
+  fromPartial<I extends Exact<DeepPartial<CommandResult>, I>>(object: I): CommandResult {
+    const message = createBaseCommandResult();
+    message.commandId = object.commandId ?? 0;
+    message.success = object.success ?? false;
+    message.errorMsg = object.errorMsg ?? "";
     return message;
   },
 };
@@ -1944,6 +3292,7 @@ function createBaseWTAMessage(): WTAMessage {
     fired: undefined,
     planRequest: undefined,
     planResponse: undefined,
+    commandAck: undefined,
   };
 }
 
@@ -1967,6 +3316,9 @@ export const WTAMessage = {
     if (message.planResponse !== undefined) {
       PlanResponse.encode(message.planResponse, writer.uint32(50).fork()).ldelim();
     }
+    if (message.commandAck !== undefined) {
+      CommandAck.encode(message.commandAck, writer.uint32(58).fork()).ldelim();
+    }
     return writer;
   },
 
@@ -2019,6 +3371,13 @@ export const WTAMessage = {
 
           message.planResponse = PlanResponse.decode(reader, reader.uint32());
           continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.commandAck = CommandAck.decode(reader, reader.uint32());
+          continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
         break;
@@ -2036,6 +3395,7 @@ export const WTAMessage = {
       fired: isSet(object.fired) ? FiredEvent.fromJSON(object.fired) : undefined,
       planRequest: isSet(object.planRequest) ? PlanRequest.fromJSON(object.planRequest) : undefined,
       planResponse: isSet(object.planResponse) ? PlanResponse.fromJSON(object.planResponse) : undefined,
+      commandAck: isSet(object.commandAck) ? CommandAck.fromJSON(object.commandAck) : undefined,
     };
   },
 
@@ -2059,6 +3419,9 @@ export const WTAMessage = {
     if (message.planResponse !== undefined) {
       obj.planResponse = PlanResponse.toJSON(message.planResponse);
     }
+    if (message.commandAck !== undefined) {
+      obj.commandAck = CommandAck.toJSON(message.commandAck);
+    }
     return obj;
   },
 
@@ -2085,6 +3448,9 @@ export const WTAMessage = {
     message.planResponse = (object.planResponse !== undefined && object.planResponse !== null)
       ? PlanResponse.fromPartial(object.planResponse)
       : undefined;
+    message.commandAck = (object.commandAck !== undefined && object.commandAck !== null)
+      ? CommandAck.fromPartial(object.commandAck)
+      : undefined;
     return message;
   },
 };
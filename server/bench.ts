@@ -0,0 +1,271 @@
+#!/usr/bin/env tsx
+/**
+ * 离线求解器基准测试
+ * 生成随机场景，用所有注册的求解器求解，输出适应度、耗时和约束违规表
+ *
+ * 用法：npm run bench -- --sizes 5x8,10x15,20x30 --scenarios 3 --out bench.md
+ * 存在违规或求解失败时以退出码1结束，便于回归检查；默认不读取已学习的命中概率，结果只取决于参数和种子
+ */
+import { writeFileSync } from 'fs';
+import { config } from './config';
+import { reportedFitness } from './solver/model';
+import { listSolvers, getSolver, Solver } from './solver/registry';
+import { toEngagements } from './solver/plan';
+import { validatePlan } from './solver/validator';
+import { stopExternalSolver } from './solver/external';
+import { DEFAULT_SCENARIO, ScenarioOptions, generateScenario } from './scenario';
+import { prepareProblem } from './problem';
+import { loadOutcomeStats } from './outcomes';
+
+interface BenchRow {
+  scenario: string;
+  solver: string;
+  fitness: number;
+  /** 与该场景最优适应度的差距（%） */
+  gap: number;
+  timeMs: number;
+  engagements: number;
+  violations: number;
+  coverage: number;
+  notes: string;
+}
+
+const USAGE = `Usage: tsx server/bench.ts [options]
+  --sizes 5x8,10x15      平台数x目标数列表（默认 ${DEFAULT_SCENARIO.platforms}x${DEFAULT_SCENARIO.targets}）
+  --scenarios N          每种规模的场景数（默认 3）
+  --seed N               起始随机种子（默认 1）
+  --roles a=1,b=1        平台角色权重：anti_personnel, anti_armor, multi_role
+  --kinds a=1,b=1        目标类型权重：infantry, armor, sam, other
+  --tiers N              tier层数（默认 ${DEFAULT_SCENARIO.tiers}）
+  --prereq P             前置依赖密度 0-1（默认 ${DEFAULT_SCENARIO.prerequisiteDensity}）
+  --area M               战场边长（米，默认 ${DEFAULT_SCENARIO.areaSize}）
+  --solvers a,b          参与测试的求解器（默认全部已注册求解器）
+  --learned-stats        使用服务器学习到的命中概率（WTA_HIT_PROB_STATS，默认不使用）
+  --out FILE             同时写入文件（.csv 输出CSV，其他输出Markdown表格）`;
+
+// ==================== 参数解析 ====================
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let k = 0; k < argv.length; k++) {
+    const arg = argv[k];
+    if (arg === '--help' || arg === '-h') {
+      args.set('help', 'true');
+    } else if (arg === '--learned-stats') {
+      args.set('learned-stats', 'true');
+    } else if (arg.startsWith('--')) {
+      args.set(arg.slice(2), argv[k + 1] ?? '');
+      k++;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  return args;
+}
+
+function parseNumber(raw: string | undefined, fallback: number, name: string): number {
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`--${name} expects a number, got "${raw}"`);
+  return value;
+}
+
+/** 解析 key=weight 列表，未列出的键权重为0 */
+function parseWeights<K extends string>(raw: string | undefined, fallback: Record<K, number>, name: string): Record<K, number> {
+  if (raw === undefined) return fallback;
+  const weights = Object.fromEntries(Object.keys(fallback).map(key => [key, 0])) as Record<K, number>;
+  raw.split(',').forEach(item => {
+    const [key, value] = item.split('=');
+    if (!(key in fallback)) throw new Error(`--${name}: unknown key "${key}" (expected ${Object.keys(fallback).join(', ')})`);
+    weights[key as K] = parseNumber(value ?? '1', 1, name);
+  });
+  if (Object.values<number>(weights).every(w => w <= 0)) throw new Error(`--${name}: at least one weight must be positive`);
+  return weights;
+}
+
+function parseSizes(raw: string | undefined): { platforms: number; targets: number }[] {
+  if (raw === undefined) return [{ platforms: DEFAULT_SCENARIO.platforms, targets: DEFAULT_SCENARIO.targets }];
+  return raw.split(',').map(item => {
+    const match = /^(\d+)x(\d+)$/.exec(item.trim());
+    if (!match) throw new Error(`--sizes: invalid size "${item}" (expected e.g. 10x15)`);
+    return { platforms: Number(match[1]), targets: Number(match[2]) };
+  });
+}
+
+function parseSolvers(raw: string | undefined): Solver[] {
+  if (raw === undefined) return listSolvers();
+  return raw.split(',').map(name => {
+    const solver = getSolver(name.trim());
+    if (!solver) throw new Error(`--solvers: unknown solver "${name}" (registered: ${listSolvers().map(s => s.name).join(', ')})`);
+    return solver;
+  });
+}
+
+// ==================== 输出格式 ====================
+
+const COLUMNS: { header: string; value: (row: BenchRow) => string }[] = [
+  { header: 'Scenario', value: r => r.scenario },
+  { header: 'Solver', value: r => r.solver },
+  { header: 'Fitness', value: r => r.fitness.toFixed(2) },
+  { header: 'Gap %', value: r => r.gap.toFixed(1) },
+  { header: 'Time ms', value: r => r.timeMs.toFixed(1) },
+  { header: 'Engagements', value: r => String(r.engagements) },
+  { header: 'Violations', value: r => String(r.violations) },
+  { header: 'Coverage %', value: r => (r.coverage * 100).toFixed(0) },
+  { header: 'Notes', value: r => r.notes }
+];
+
+function toMarkdown(rows: BenchRow[]): string {
+  const cells = rows.map(row => COLUMNS.map(c => c.value(row)));
+  const widths = COLUMNS.map((c, k) => Math.max(c.header.length, ...cells.map(line => line[k].length)));
+  const line = (values: string[]) => `| ${values.map((v, k) => v.padEnd(widths[k])).join(' | ')} |`;
+  return [
+    line(COLUMNS.map(c => c.header)),
+    `|${widths.map(w => '-'.repeat(w + 2)).join('|')}|`,
+    ...cells.map(line)
+  ].join('\n');
+}
+
+function toCsv(rows: BenchRow[]): string {
+  const escape = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  return [
+    COLUMNS.map(c => c.header).join(','),
+    ...rows.map(row => COLUMNS.map(c => escape(c.value(row))).join(','))
+  ].join('\n');
+}
+
+/** 各求解器的汇总行：平均适应度、平均差距、平均耗时、违规合计 */
+function summarize(rows: BenchRow[]): BenchRow[] {
+  const solvers = Array.from(new Set(rows.map(r => r.solver)));
+  return solvers.map(solver => {
+    const own = rows.filter(r => r.solver === solver);
+    const mean = (f: (r: BenchRow) => number) => own.reduce((sum, r) => sum + f(r), 0) / own.length;
+    return {
+      scenario: `mean of ${own.length}`,
+      solver,
+      fitness: mean(r => r.fitness),
+      gap: mean(r => r.gap),
+      timeMs: mean(r => r.timeMs),
+      engagements: Math.round(mean(r => r.engagements)),
+      violations: own.reduce((sum, r) => sum + r.violations, 0),
+      coverage: mean(r => r.coverage),
+      notes: own.filter(r => r.notes.includes('error')).length > 0 ? 'has errors' : ''
+    };
+  });
+}
+
+// ==================== 基准测试 ====================
+
+async function runScenario(name: string, options: ScenarioOptions, solvers: Solver[]): Promise<BenchRow[]> {
+  const request = generateScenario(options);
+  const rows: BenchRow[] = [];
+
+  for (const solver of solvers) {
+    // 与服务器相同的问题构建流程（无运营人员约束和上一方案，因此没有换目标惩罚）
+    const { problem } = prepareProblem(request, [], []);
+
+    const startTime = performance.now();
+    try {
+      const result = await solver.solve(problem);
+      const timeMs = performance.now() - startTime;
+      const engagements = toEngagements(problem, result.assignment);
+      const validation = validatePlan(request, engagements, problem.readiness);
+      const notes = [
+        result.solver && result.solver !== solver.name ? `via ${result.solver}` : '',
+        result.provenOptimal ? 'optimal' : '',
+        result.degraded ? 'degraded' : ''
+      ].filter(n => n !== '').join(', ');
+      rows.push({
+        scenario: name,
+        solver: solver.name,
+        fitness: reportedFitness(problem, result.assignment),
+        gap: 0,
+        timeMs,
+        engagements: engagements.length,
+        violations: validation.violations.length,
+        coverage: validation.coverageRate,
+        notes
+      });
+    } catch (error) {
+      rows.push({
+        scenario: name,
+        solver: solver.name,
+        fitness: 0,
+        gap: 0,
+        timeMs: performance.now() - startTime,
+        engagements: 0,
+        violations: 0,
+        coverage: 0,
+        notes: `error: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  }
+
+  const best = Math.max(...rows.filter(r => !r.notes.startsWith('error')).map(r => r.fitness));
+  rows.forEach(row => {
+    row.gap = best > 0 && Number.isFinite(best) ? ((best - row.fitness) / best) * 100 : 0;
+  });
+  return rows;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const sizes = parseSizes(args.get('sizes'));
+  const scenarioCount = parseNumber(args.get('scenarios'), 3, 'scenarios');
+  const baseSeed = parseNumber(args.get('seed'), 1, 'seed');
+  const base: ScenarioOptions = {
+    ...DEFAULT_SCENARIO,
+    roleMix: parseWeights(args.get('roles'), DEFAULT_SCENARIO.roleMix, 'roles'),
+    kindMix: parseWeights(args.get('kinds'), DEFAULT_SCENARIO.kindMix, 'kinds'),
+    tiers: parseNumber(args.get('tiers'), DEFAULT_SCENARIO.tiers, 'tiers'),
+    prerequisiteDensity: parseNumber(args.get('prereq'), DEFAULT_SCENARIO.prerequisiteDensity, 'prereq'),
+    areaSize: parseNumber(args.get('area'), DEFAULT_SCENARIO.areaSize, 'area')
+  };
+  const solvers = parseSolvers(args.get('solvers'));
+  if (args.has('learned-stats')) await loadOutcomeStats(config.outcomes);
+
+  console.log(`Benchmarking ${solvers.map(s => s.name).join(', ')} on ` +
+    `${sizes.length * scenarioCount} scenario(s)\n`);
+
+  const rows: BenchRow[] = [];
+  for (const size of sizes) {
+    for (let k = 0; k < scenarioCount; k++) {
+      const seed = baseSeed + k;
+      const name = `${size.platforms}x${size.targets}#${seed}`;
+      rows.push(...await runScenario(name, { ...base, ...size, seed }, solvers));
+    }
+  }
+
+  const summary = summarize(rows);
+  console.log(toMarkdown(rows));
+  console.log('\nSummary:\n');
+  console.log(toMarkdown(summary));
+
+  const out = args.get('out');
+  if (out) {
+    const content = out.endsWith('.csv')
+      ? toCsv([...rows, ...summary])
+      : `${toMarkdown(rows)}\n\n## Summary\n\n${toMarkdown(summary)}\n`;
+    writeFileSync(out, content);
+    console.log(`\nWrote ${out}`);
+  }
+
+  const failed = rows.filter(r => r.violations > 0 || r.notes.startsWith('error'));
+  if (failed.length > 0) {
+    console.error(`\n${failed.length} run(s) produced violations or errors`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exitCode = 1;
+  })
+  .finally(() => stopExternalSolver());
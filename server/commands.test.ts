@@ -0,0 +1,22 @@
+import { expect, test } from 'vitest';
+import { CommandAck } from '../proto/generated/wta_messages';
+import { acknowledgeCommands, commandHistory, enqueueCommand, takeQueuedCommands } from './commands';
+
+test('a full history evicts settled commands only and rejects new ones otherwise', () => {
+  for (let k = 0; k < 50; k++) expect(enqueueCommand({ replan: {} })).not.toBeNull();
+  const delivered = takeQueuedCommands();
+  expect(delivered.length).toBe(50);
+
+  // 全部已下发但未确认：不能丢弃
+  expect(enqueueCommand({ setPlanTtl: { ttlSec: 5 } })).toBeNull();
+  expect(commandHistory().every(r => r.state === 'delivered')).toBe(true);
+
+  acknowledgeCommands(CommandAck.fromPartial({ results: [{ commandId: delivered[10].id, success: true }] }));
+  const record = enqueueCommand({ setPlanTtl: { ttlSec: 5 } });
+  expect(record?.state).toBe('queued');
+
+  const history = commandHistory();
+  expect(history.length).toBe(50);
+  expect(history.some(r => r.id === delivered[10].id)).toBe(false);
+  expect(history.filter(r => r.state === 'delivered').length).toBe(49);
+});
@@ -0,0 +1,188 @@
+/**
+ * 运营人员指令通道
+ * 仪表板通过WebSocket发送类型化的命令（ClientCommand）；其中发给Arma的指令在此排队，
+ * 随下一次ZMQ应答（PlanResponse.commands）下发，Arma执行后以CommandAck确认，确认结果推送到仪表板
+ */
+import { CommandAck, OperatorCommand } from '../proto/generated/wta_messages';
+import { logger } from './logger';
+
+/** 仪表板经WebSocket发给服务器的命令 */
+export type ClientCommand =
+  | { type: 'select_plan'; planId: number }
+  | { type: 'pin' | 'forbid'; platformId: number; targetId: number }
+  | { type: 'remove_constraint'; id: number }
+  | { type: 'approve_plan'; planId: number; engagements?: { platformId: number; targetId: number }[] }
+  | { type: 'reject_plan'; planId: number }
+  | { type: 'replan' }
+  | { type: 'abort_engagement'; platformId: number; targetId: number }
+  | { type: 'set_plan_ttl'; ttlSec: number };
+
+/** queued：等待下发；delivered：已随应答发出，等待确认；acknowledged：Arma执行成功；failed：Arma执行失败 */
+export type CommandState = 'queued' | 'delivered' | 'acknowledged' | 'failed';
+
+/** 前端展示的指令记录 */
+export interface CommandRecord {
+  id: number;
+  kind: 'replan' | 'abort_engagement' | 'set_plan_ttl';
+  /** 人类可读的指令内容 */
+  summary: string;
+  state: CommandState;
+  createdAt: string;
+  deliveredAt: string | null;
+  acknowledgedAt: string | null;
+  /** 执行失败的原因 */
+  errorMsg: string;
+}
+
+// 保留的指令记录数：超出时移除最旧的已有结果的指令，排队或等待确认的指令不移除
+const HISTORY_LIMIT = 50;
+
+const entries: { record: CommandRecord; command: OperatorCommand }[] = [];
+let nextCommandId = 1;
+
+function integerField(message: Record<string, unknown>, field: string): number | null {
+  const raw = message[field];
+  if (typeof raw !== 'number' && typeof raw !== 'string') return null;
+  const value = Number(raw);
+  return Number.isInteger(value) ? value : null;
+}
+
+/** 解析并检查仪表板命令，格式错误时返回错误说明 */
+export function parseClientCommand(raw: string): ClientCommand | string {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return 'not valid JSON';
+  }
+  if (typeof message !== 'object' || message === null) return 'command must be a JSON object';
+
+  const type = message.type;
+  switch (type) {
+    case 'select_plan':
+    case 'reject_plan': {
+      const planId = integerField(message, 'planId');
+      return planId === null ? `${type}: planId must be an integer` : { type, planId };
+    }
+    case 'pin':
+    case 'forbid':
+    case 'abort_engagement': {
+      const platformId = integerField(message, 'platformId');
+      const targetId = integerField(message, 'targetId');
+      if (platformId === null || targetId === null) return `${type}: platformId and targetId must be integers`;
+      return { type, platformId, targetId };
+    }
+    case 'remove_constraint': {
+      const id = integerField(message, 'id');
+      return id === null ? 'remove_constraint: id must be an integer' : { type, id };
+    }
+    case 'approve_plan': {
+      const planId = integerField(message, 'planId');
+      if (planId === null) return 'approve_plan: planId must be an integer';
+      if (message.engagements === undefined) return { type, planId };
+      if (!Array.isArray(message.engagements)) return 'approve_plan: engagements must be an array';
+      const engagements = message.engagements.map(e => ({
+        platformId: integerField(e ?? {}, 'platformId'),
+        targetId: integerField(e ?? {}, 'targetId')
+      }));
+      if (engagements.some(e => e.platformId === null || e.targetId === null)) {
+        return 'approve_plan: each engagement needs integer platformId and targetId';
+      }
+      return { type, planId, engagements: engagements as { platformId: number; targetId: number }[] };
+    }
+    case 'replan':
+      return { type };
+    case 'set_plan_ttl': {
+      const ttlSec = Number(message.ttlSec);
+      if (typeof message.ttlSec !== 'number' || !Number.isFinite(ttlSec) || ttlSec <= 0) {
+        return 'set_plan_ttl: ttlSec must be a positive number';
+      }
+      return { type, ttlSec };
+    }
+    default:
+      return `unknown command type ${JSON.stringify(type)}`;
+  }
+}
+
+function describe(command: OperatorCommand): Pick<CommandRecord, 'kind' | 'summary'> {
+  if (command.abortEngagement) {
+    const { platformId, targetId } = command.abortEngagement;
+    return { kind: 'abort_engagement', summary: `Abort platform #${platformId} -> target #${targetId}` };
+  }
+  if (command.setPlanTtl) {
+    return { kind: 'set_plan_ttl', summary: `Set plan TTL to ${command.setPlanTtl.ttlSec}s` };
+  }
+  return { kind: 'replan', summary: 'Request manual replan' };
+}
+
+/**
+ * 指令排队，等待随下一次ZMQ应答下发
+ * 记录已满且全部排队或等待确认（Arma长时间未应答）时拒绝新指令，返回null
+ */
+export function enqueueCommand(payload: Omit<OperatorCommand, 'id' | 'timestamp'>): CommandRecord | null {
+  if (entries.length >= HISTORY_LIMIT) {
+    const settled = entries.findIndex(e => e.record.state === 'acknowledged' || e.record.state === 'failed');
+    if (settled < 0) {
+      logger.warn('[Command]', `${HISTORY_LIMIT} command(s) queued or awaiting ack, new command rejected`, payload);
+      return null;
+    }
+    entries.splice(settled, 1);
+  }
+
+  const command: OperatorCommand = { id: nextCommandId++, timestamp: Date.now() / 1000, ...payload };
+  const record: CommandRecord = {
+    id: command.id,
+    ...describe(command),
+    state: 'queued',
+    createdAt: new Date().toISOString(),
+    deliveredAt: null,
+    acknowledgedAt: null,
+    errorMsg: ''
+  };
+  entries.push({ record, command });
+
+  logger.info('[Command]', `Queued #${command.id}: ${record.summary}`);
+  return record;
+}
+
+/** 取出所有排队的指令并记为已下发；没有时返回空数组 */
+export function takeQueuedCommands(): OperatorCommand[] {
+  const queued = entries.filter(e => e.record.state === 'queued');
+  const deliveredAt = new Date().toISOString();
+  queued.forEach(e => {
+    e.record.state = 'delivered';
+    e.record.deliveredAt = deliveredAt;
+  });
+  if (queued.length > 0) {
+    logger.info('[Command]', `Delivering ${queued.length} command(s) to Arma`, queued.map(e => e.command.id));
+  }
+  return queued.map(e => e.command);
+}
+
+/** 记录Arma的确认，返回执行成功的指令；未知或尚未下发的指令ID只记录警告 */
+export function acknowledgeCommands(ack: CommandAck): OperatorCommand[] {
+  const acknowledgedAt = new Date().toISOString();
+  const succeeded: OperatorCommand[] = [];
+  ack.results.forEach(result => {
+    const entry = entries.find(e => e.record.id === result.commandId);
+    if (!entry || entry.record.state === 'queued') {
+      logger.warn('[Command]', `Ack for unknown or undelivered command #${result.commandId}, ignored`);
+      return;
+    }
+    entry.record.state = result.success ? 'acknowledged' : 'failed';
+    entry.record.acknowledgedAt = acknowledgedAt;
+    entry.record.errorMsg = result.errorMsg;
+    if (result.success) {
+      succeeded.push(entry.command);
+      logger.info('[Command]', `Arma acknowledged #${result.commandId}: ${entry.record.summary}`);
+    } else {
+      logger.warn('[Command]', `Arma failed #${result.commandId}: ${entry.record.summary}`, result.errorMsg);
+    }
+  });
+  return succeeded;
+}
+
+/** 指令记录，最新的在前 */
+export function commandHistory(): CommandRecord[] {
+  return entries.map(e => ({ ...e.record })).reverse();
+}
@@ -0,0 +1,188 @@
+/**
+ * 服务器配置
+ * 默认值可通过环境变量覆盖
+ */
+import { cpus } from 'os';
+import type { ReadinessRule } from './solver/readiness';
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function envString(name: string, fallback: string): string {
+  const raw = process.env[name];
+  return raw === undefined || raw === '' ? fallback : raw;
+}
+
+/** 读取布尔值：true/1/yes/on 为真，其他非空值为假 */
+function envBoolean(name: string, fallback: boolean): boolean {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  return ['true', '1', 'yes', 'on'].includes(raw.trim().toLowerCase());
+}
+
+/** 读取逗号分隔的数字列表，忽略无法解析的项 */
+function envNumberList(name: string, fallback: number[]): number[] {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const values = raw.split(',').map(v => Number(v.trim())).filter(v => Number.isFinite(v));
+  return values.length > 0 ? values : fallback;
+}
+
+/** 读取逗号分隔的字符串列表，忽略空项 */
+function envStringList(name: string, fallback: string[]): string[] {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  return raw.split(',').map(v => v.trim()).filter(v => v !== '');
+}
+
+/** 读取JSON对象，按键覆盖默认值；解析失败时使用默认值，值不符合格式的键保留默认值 */
+function envJson<T extends object>(name: string, fallback: T, isValid: (value: unknown) => boolean): T {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return fallback;
+  const entries = Object.entries(parsed).filter(([, value]) => isValid(value));
+  return { ...fallback, ...Object.fromEntries(entries) };
+}
+
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isNumberArray = (value: unknown) => Array.isArray(value) && value.every(isNumber);
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const config = {
+  // 方案有效期（秒）
+  planTtlSec: envNumber('WTA_PLAN_TTL_SEC', 2.0),
+
+  // 求解线程池：规划在工作线程中执行，超过截止时间时返回迄今最优解
+  pool: {
+    workers: envNumber('WTA_SOLVER_WORKERS', Math.max(1, Math.min(4, cpus().length - 1))),
+    deadlineMs: envNumber('WTA_PLAN_DEADLINE_MS', 1000)
+  },
+
+  // 求解器选择：按PlanRequest.reason指定，未配置时使用默认求解器
+  solvers: {
+    default: envString('WTA_SOLVER', 'auto'),
+    byReason: {
+      replan: envString('WTA_SOLVER_REPLAN', ''),
+      ttl_expired: envString('WTA_SOLVER_TTL_EXPIRED', ''),
+      manual: envString('WTA_SOLVER_MANUAL', ''),
+      event: envString('WTA_SOLVER_EVENT', '')
+    }
+  },
+
+  // 影子求解器：与主求解器同时运行，结果只写入对比报告，不发给Arma
+  shadow: {
+    solvers: envStringList('WTA_SHADOW_SOLVERS', []),
+    reportPath: envString('WTA_SHADOW_REPORT', 'logs/shadow-report.jsonl')
+  },
+
+  // 方案审批：开启时新方案须经运营人员批准才发给Arma，autoApproveSec为0表示不自动批准
+  approval: {
+    required: envBoolean('WTA_REQUIRE_APPROVAL', false),
+    autoApproveSec: envNumber('WTA_AUTO_APPROVE_SEC', 30)
+  },
+
+  // 方案稳定性：已有交战的平台改换目标时附加的代价（与目标价值同单位）
+  stability: {
+    switchPenalty: envNumber('WTA_SWITCH_PENALTY', 5.0)
+  },
+
+  // 弹药效能：按TargetKind（UNKNOWN, INFANTRY, ARMOR, SAM, OTHER）索引的命中概率系数
+  munitions: {
+    effectiveness: envJson('WTA_MUNITION_EFFECTIVENESS', {
+      missile: [1.0, 0.6, 1.0, 1.0, 0.9],
+      bomb: [1.0, 1.0, 0.8, 0.9, 1.0],
+      rocket: [0.8, 0.9, 0.5, 0.6, 0.8]
+    }, isNumberArray),
+    magazinePatterns: envJson('WTA_MAGAZINE_PATTERNS', {
+      missile: ['missile', 'agm', 'scalpel', 'skalpel', 'hellfire', 'macer', 'titan'],
+      bomb: ['bomb', 'gbu', 'lgb', 'sdb', 'mk82'],
+      rocket: ['rocket', 'dar', 'dagr', 'pg_missiles', '12rnd_missiles', '24rnd_missiles', 'falcon', 'shrieker']
+    }, isStringArray)
+  },
+
+  // 防空威胁：SAM目标的默认威胁范围和击毁概率（TargetState可单独指定），平台损失价值 = cost × lossMultiplier
+  threat: {
+    samRadius: envNumber('WTA_SAM_THREAT_RADIUS', 3000),
+    samKillProb: envNumber('WTA_SAM_KILL_PROB', 0.3),
+    lossMultiplier: envNumber('WTA_THREAT_LOSS_MULTIPLIER', 10)
+  },
+
+  // 航线与到达时间：按platformType配置巡航速度（米/秒），未列出的类型使用default；
+  // timeCost为每秒飞行时间折算的代价
+  routing: {
+    speeds: envJson<Record<string, number>>('WTA_PLATFORM_SPEEDS', {
+      default: 50,
+      B_UAV_01_F: 15,
+      B_UAV_02_dynamicLoadout_F: 70,
+      O_UAV_02_dynamicLoadout_F: 70,
+      I_UAV_02_dynamicLoadout_F: 70,
+      B_UAV_05_F: 100
+    }, isNumber),
+    timeCost: envNumber('WTA_TIME_COST', 0.01)
+  },
+
+  // 平台战备规则：按platformType配置（未列出的字段取default），燃油和损伤为0-1比例；
+  // 燃油低于bingoFuel或损伤达到maxDamage的平台不参与规划，燃油不足以往返的目标不分配，
+  // 损伤达到heavyDamage的平台命中概率乘以damageHitFactor
+  readiness: {
+    rules: envJson<Record<string, Partial<ReadinessRule>>>('WTA_READINESS_RULES', {
+      default: { bingoFuel: 0.2, fuelPerKm: 0.01, maxDamage: 0.8, heavyDamage: 0.5, damageHitFactor: 0.7 },
+      B_UAV_01_F: { bingoFuel: 0.3, fuelPerKm: 0.1 },
+      B_UAV_05_F: { fuelPerKm: 0.005 }
+    }, isObject)
+  },
+
+  // 毁伤概率观测学习：按发射与击毁事件估计单发毁伤概率，先验强度为虚拟发射数
+  outcomes: {
+    useLearned: envBoolean('WTA_USE_LEARNED_HIT_PROB', true),
+    priorStrength: envNumber('WTA_HIT_PROB_PRIOR_STRENGTH', 10),
+    windowSec: envNumber('WTA_OUTCOME_WINDOW_SEC', 30),
+    statsPath: envString('WTA_HIT_PROB_STATS', 'logs/hit-prob.json')
+  },
+
+  // 结果仿真：对前端展示的方案做蒙特卡洛抽样，trials为0时关闭
+  simulation: {
+    trials: envNumber('WTA_SIM_TRIALS', 5000),
+    seed: envNumber('WTA_SIM_SEED', 7)
+  },
+
+  // 精确求解器：规模不超过上限时启用，超时则退回启发式结果
+  exact: {
+    maxPlatforms: envNumber('WTA_EXACT_MAX_PLATFORMS', 8),
+    maxSlots: envNumber('WTA_EXACT_MAX_SLOTS', 12),
+    maxTargets: envNumber('WTA_EXACT_MAX_TARGETS', 10),
+    timeBudgetMs: envNumber('WTA_EXACT_TIME_BUDGET_MS', 500)
+  },
+
+  // 外部求解器：子进程通过stdin/stdout交换长度前缀的Protobuf帧，失败时使用后备求解器
+  external: {
+    command: envString('WTA_EXTERNAL_SOLVER_CMD', ''),
+    timeoutMs: envNumber('WTA_EXTERNAL_SOLVER_TIMEOUT_MS', 1000),
+    fallback: envString('WTA_EXTERNAL_SOLVER_FALLBACK', 'greedy')
+  },
+
+  // 帕累托前沿：按代价权重列表求解价值-代价折中方案，供运营人员选择
+  pareto: {
+    weights: envNumberList('WTA_PARETO_WEIGHTS', [0, 0.25, 0.5, 1, 2, 4]),
+    timeBudgetMs: envNumber('WTA_PARETO_TIME_BUDGET_MS', 200)
+  },
+
+  // 模拟退火求解器：大规模场景使用，固定种子和迭代次数保证可复现，耗时由迭代次数决定
+  anneal: {
+    seed: envNumber('WTA_ANNEAL_SEED', 42),
+    maxIterations: envNumber('WTA_ANNEAL_MAX_ITERATIONS', 50000),
+    initialTemperature: envNumber('WTA_ANNEAL_INITIAL_TEMPERATURE', 0.5),
+    finalTemperature: envNumber('WTA_ANNEAL_FINAL_TEMPERATURE', 0.001)
+  }
+};
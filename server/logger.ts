@@ -0,0 +1,74 @@
+/**
+ * 日志系统
+ * 带颜色与级别的控制台日志，级别由环境变量 LOG_LEVEL 控制
+ */
+
+export enum LogLevel {
+  DEBUG = 0,
+  INFO = 1,
+  WARN = 2,
+  ERROR = 3
+}
+
+// 从环境变量读取日志级别，默认为 INFO
+export const LOG_LEVEL: LogLevel = (() => {
+  const level = process.env.LOG_LEVEL?.toUpperCase() || 'INFO';
+  return LogLevel[level as keyof typeof LogLevel] ?? LogLevel.INFO;
+})();
+
+// 颜色代码
+const colors = {
+  reset: '\x1b[0m',
+  dim: '\x1b[2m',
+  bright: '\x1b[1m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  green: '\x1b[32m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  magenta: '\x1b[35m'
+};
+
+// 日志函数
+function log(level: LogLevel, prefix: string, message: string, data?: any) {
+  if (level < LOG_LEVEL) return;
+
+  const timestamp = new Date().toLocaleTimeString();
+  let colorCode = colors.reset;
+  let levelStr = '';
+
+  switch (level) {
+    case LogLevel.DEBUG:
+      colorCode = colors.cyan;
+      levelStr = '[DEBUG]';
+      break;
+    case LogLevel.INFO:
+      colorCode = colors.green;
+      levelStr = '[INFO]';
+      break;
+    case LogLevel.WARN:
+      colorCode = colors.yellow;
+      levelStr = '[WARN]';
+      break;
+    case LogLevel.ERROR:
+      colorCode = colors.red;
+      levelStr = '[ERROR]';
+      break;
+  }
+
+  const header = `${colorCode}${levelStr}${colors.reset} ${colors.dim}[${timestamp}]${colors.reset} ${prefix}`;
+  
+  if (data !== undefined) {
+    console.log(header, message, data);
+  } else {
+    console.log(header, message);
+  }
+}
+
+// 便捷函数
+export const logger = {
+  debug: (prefix: string, message: string, data?: any) => log(LogLevel.DEBUG, prefix, message, data),
+  info: (prefix: string, message: string, data?: any) => log(LogLevel.INFO, prefix, message, data),
+  warn: (prefix: string, message: string, data?: any) => log(LogLevel.WARN, prefix, message, data),
+  error: (prefix: string, message: string, data?: any) => log(LogLevel.ERROR, prefix, message, data)
+};
@@ -0,0 +1,210 @@
+/**
+ * 毁伤概率观测学习
+ * 将FiredEvent与之后同一目标的击毁事件（EntityKilledEvent，或damageAmount达到1的DamageEvent）匹配，
+ * 按 平台类型 × 弹药类别 × 目标类型 统计发射数与击毁数，得到单发毁伤概率的贝叶斯估计：
+ * 先验为平台上报值（hitProb × 效能系数），强度为priorStrength次虚拟发射（Beta分布），
+ * 后验均值 = (击毁数 + 强度 × 上报值) / (发射数 + 强度)
+ *
+ * 一次击毁记在对该目标最后一次发射上，对该目标的其他待定发射记为未击毁；
+ * 超过观测窗口仍未击毁的发射记为未击毁
+ */
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { FiredEvent, PlatformState, TargetState, TargetKind } from '../proto/generated/wta_messages';
+import { logger } from './logger';
+import { MUNITION_CLASSES, MunitionClass, MunitionOptions, ShotProbAdjuster, classifyMagazine } from './solver/munitions';
+
+export interface OutcomeOptions {
+  /** 规划时是否用学习的估计代替上报的hitProb */
+  useLearned: boolean;
+  /** 先验强度（虚拟发射数），越大越信任上报值 */
+  priorStrength: number;
+  /** 发射后等待击毁事件的时间（秒） */
+  windowSec: number;
+  /** 统计数据文件，为空表示不保存 */
+  statsPath: string;
+}
+
+/** 一个 平台类型 × 弹药类别 × 目标类型 组合的统计 */
+interface OutcomeStats {
+  platformType: string;
+  munition: MunitionClass | '';
+  targetKind: TargetKind;
+  shots: number;
+  kills: number;
+  /** 各次发射上报的单发毁伤概率之和 */
+  declaredSum: number;
+}
+
+/** 前端展示的估计 */
+export interface HitProbEstimate {
+  platformType: string;
+  munition: string;
+  targetKind: TargetKind;
+  shots: number;
+  kills: number;
+  /** 上报的单发毁伤概率（各次发射平均） */
+  declared: number;
+  /** 后验均值 */
+  observed: number;
+  /** 后验标准差 */
+  std: number;
+}
+
+interface PendingShot {
+  key: string;
+  targetId: number;
+  declared: number;
+  firedAt: number;
+}
+
+const stats = new Map<string, OutcomeStats>();
+let pending: PendingShot[] = [];
+let saving: Promise<void> = Promise.resolve();
+
+function keyOf(platformType: string, munition: string, targetKind: TargetKind): string {
+  return `${platformType}|${munition}|${targetKind}`;
+}
+
+/** 发射的弹药类别：按武器名称识别，无法识别且平台只剩一种弹药时取该类别 */
+function shotMunition(platform: PlatformState, weapon: string, options: MunitionOptions): MunitionClass | '' {
+  const munition = classifyMagazine(weapon, options);
+  if (munition) return munition;
+  if (!platform.ammo) return '';
+  const ammo = platform.ammo;
+  const remaining = MUNITION_CLASSES.filter(m => ammo[m] > 0);
+  return remaining.length === 1 ? remaining[0] : '';
+}
+
+function resolve(shot: PendingShot, killed: boolean) {
+  const entry = stats.get(shot.key);
+  if (!entry) return;
+  entry.shots++;
+  entry.declaredSum += shot.declared;
+  if (killed) entry.kills++;
+}
+
+// 超过观测窗口的发射记为未击毁
+function expire(now: number, options: OutcomeOptions): boolean {
+  const cutoff = now - options.windowSec * 1000;
+  const expired = pending.filter(s => s.firedAt < cutoff);
+  if (expired.length === 0) return false;
+  expired.forEach(s => resolve(s, false));
+  pending = pending.filter(s => s.firedAt >= cutoff);
+  return true;
+}
+
+function save(options: OutcomeOptions) {
+  if (!options.statsPath) return;
+  const content = JSON.stringify(Array.from(stats.values()), null, 2);
+  saving = saving
+    .then(async () => {
+      await mkdir(dirname(options.statsPath), { recursive: true });
+      await writeFile(options.statsPath, content);
+    })
+    .catch(error => logger.error('[Outcome]', `Failed to save hit probability stats ${options.statsPath}`, error));
+}
+
+// 判定已超过观测窗口的发射，有变化时保存
+function settle(now: number, options: OutcomeOptions) {
+  if (expire(now, options)) save(options);
+}
+
+/** 读取已保存的统计；文件不存在时从零开始 */
+export async function loadOutcomeStats(options: OutcomeOptions) {
+  if (!options.statsPath) return;
+  try {
+    const entries: OutcomeStats[] = JSON.parse(await readFile(options.statsPath, 'utf8'));
+    entries.forEach(e => stats.set(keyOf(e.platformType, e.munition, e.targetKind), e));
+    logger.info('[Outcome]', `Loaded hit probability stats for ${entries.length} combination(s)`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn('[Outcome]', `Ignoring unreadable stats file ${options.statsPath}`, error);
+    }
+  }
+}
+
+/**
+ * 记录一次发射，等待对该目标的击毁事件
+ * 须在applyFired扣除弹药之前调用；平台或目标未知时忽略
+ */
+export function recordShot(
+  event: FiredEvent,
+  platforms: PlatformState[],
+  targets: TargetState[],
+  munitions: MunitionOptions,
+  options: OutcomeOptions
+) {
+  const now = Date.now();
+  settle(now, options);
+
+  const platform = platforms.find(p => p.id === event.platformId);
+  const target = targets.find(t => t.id === event.targetId);
+  if (!platform || !target || !target.alive) return;
+
+  const munition = shotMunition(platform, event.weapon, munitions);
+  const factor = munition ? munitions.effectiveness[munition]?.[target.kind] ?? 1 : 1;
+  const key = keyOf(platform.platformType, munition, target.kind);
+  if (!stats.has(key)) {
+    stats.set(key, { platformType: platform.platformType, munition, targetKind: target.kind, shots: 0, kills: 0, declaredSum: 0 });
+  }
+  pending.push({ key, targetId: target.id, declared: Math.min(Math.max(platform.hitProb * factor, 0), 1), firedAt: now });
+}
+
+/** 目标被击毁：最后一次发射记为击毁，其余待定发射记为未击毁 */
+export function recordTargetKilled(targetId: number, options: OutcomeOptions) {
+  const now = Date.now();
+  let changed = expire(now, options);
+
+  const shots = pending.filter(s => s.targetId === targetId);
+  if (shots.length > 0) {
+    shots.forEach((s, k) => resolve(s, k === shots.length - 1));
+    pending = pending.filter(s => s.targetId !== targetId);
+    changed = true;
+    logger.info('[Outcome]', `Target #${targetId} kill matched to ${shots.length} shot(s)`);
+  }
+  if (changed) save(options);
+}
+
+function posterior(entry: OutcomeStats, declared: number, options: OutcomeOptions): { mean: number; std: number } {
+  const strength = Math.max(options.priorStrength, 0);
+  const n = entry.shots + strength;
+  if (n <= 0) return { mean: declared, std: 0 };
+  const mean = (entry.kills + strength * declared) / n;
+  return { mean, std: Math.sqrt((mean * (1 - mean)) / (n + 1)) };
+}
+
+export function hitProbEstimates(options: OutcomeOptions): HitProbEstimate[] {
+  settle(Date.now(), options);
+  return Array.from(stats.values())
+    .filter(e => e.shots > 0)
+    .map(e => {
+      const declared = e.declaredSum / e.shots;
+      const { mean, std } = posterior(e, declared, options);
+      return {
+        platformType: e.platformType,
+        munition: e.munition,
+        targetKind: e.targetKind,
+        shots: e.shots,
+        kills: e.kills,
+        declared,
+        observed: mean,
+        std
+      };
+    })
+    .sort((a, b) => b.shots - a.shots);
+}
+
+/**
+ * 规划使用的单发毁伤概率修正
+ * 以平台自身的上报值为先验、以同类组合的观测更新；未启用时返回undefined
+ */
+export function learnedShotProb(options: OutcomeOptions): ShotProbAdjuster | undefined {
+  if (!options.useLearned) return undefined;
+  settle(Date.now(), options);
+  return (platform, munition, target, declared) => {
+    const entry = stats.get(keyOf(platform.platformType, munition, target.kind));
+    if (!entry || entry.shots === 0) return declared;
+    return posterior(entry, declared, options).mean;
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * 已下发方案的生命周期
+ * 记录每个发给Arma的方案、其有效期，以及每条交战的执行情况：
+ * FiredEvent与当前方案中相同平台-目标对的交战匹配（executed）；目标被击毁或平台损失时，
+ * 尚未执行的交战不再需要（obsolete）；新方案下发时，仍待执行的交战若在新方案中保留则延续到新方案（reissued），
+ * 否则记为未执行（ignored）。方案过期后Arma仍可能执行，事件继续与最近下发的方案匹配，直到被新方案取代
+ */
+import { FiredEvent, PlanResponse } from '../proto/generated/wta_messages';
+import { logger } from './logger';
+
+/**
+ * pending：等待执行；executed：平台已对目标开火；reissued：未执行，在下一个方案中继续；
+ * ignored：方案被取代前未执行且新方案不再包含；obsolete：目标已摧毁或平台损失，不再需要；aborted：运营人员中止
+ */
+export type EngagementStatus = 'pending' | 'executed' | 'reissued' | 'ignored' | 'obsolete' | 'aborted';
+
+export interface TrackedEngagement {
+  platformId: number;
+  targetId: number;
+  wave: number;
+  munition: string;
+  rounds: number;
+  status: EngagementStatus;
+  /** 首次下发时间，跨方案延续的交战取最早的方案 */
+  since: string;
+  /** 平台对该目标的开火次数 */
+  shots: number;
+  /** 执行后目标被摧毁 */
+  targetKilled: boolean;
+  /** 状态说明 */
+  detail: string;
+  updatedAt: string;
+}
+
+/** active：在有效期内；expired：已过期但尚未被取代；superseded：已被新方案取代 */
+export type IssuedPlanState = 'active' | 'expired' | 'superseded';
+
+/** 前端展示的已下发方案 */
+export interface IssuedPlan {
+  id: number;
+  reason: string;
+  solver: string;
+  issuedAt: string;
+  expiresAt: string;
+  state: IssuedPlanState;
+  engagements: TrackedEngagement[];
+  /** 不属于方案的开火次数 */
+  unplannedShots: number;
+}
+
+interface StoredIssuedPlan {
+  id: number;
+  reason: string;
+  solver: string;
+  issuedAt: number;
+  expiresAt: number;
+  superseded: boolean;
+  engagements: TrackedEngagement[];
+  unplannedShots: number;
+}
+
+// 保留的方案数
+const HISTORY_LIMIT = 20;
+
+const plans: StoredIssuedPlan[] = [];
+let nextPlanId = 1;
+
+function currentPlan(): StoredIssuedPlan | undefined {
+  return plans[plans.length - 1];
+}
+
+function setStatus(engagement: TrackedEngagement, status: EngagementStatus, detail: string) {
+  engagement.status = status;
+  engagement.detail = detail;
+  engagement.updatedAt = new Date().toISOString();
+}
+
+function summarize(plan: StoredIssuedPlan): Record<string, number> {
+  const counts: Record<string, number> = {};
+  plan.engagements.forEach(e => {
+    counts[e.status] = (counts[e.status] ?? 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * 记录发给Arma的方案，取代之前的方案
+ * 之前方案中仍待执行的交战按新方案是否保留记为reissued或ignored
+ */
+export function recordIssuedPlan(response: PlanResponse, reason: string) {
+  const now = Date.now();
+  const issuedAt = new Date(now).toISOString();
+  const plan: StoredIssuedPlan = {
+    id: nextPlanId++,
+    reason,
+    solver: response.stats?.solver ?? '',
+    issuedAt: now,
+    expiresAt: now + response.ttlSec * 1000,
+    superseded: false,
+    engagements: response.engagements.map(e => ({
+      platformId: e.platformId,
+      targetId: e.targetId,
+      wave: e.wave,
+      munition: e.munition,
+      rounds: e.rounds,
+      status: 'pending',
+      since: issuedAt,
+      shots: 0,
+      targetKilled: false,
+      detail: '',
+      updatedAt: issuedAt
+    })),
+    unplannedShots: 0
+  };
+
+  const previous = currentPlan();
+  if (previous) {
+    previous.superseded = true;
+    const continued = new Set<TrackedEngagement>();
+    previous.engagements.filter(e => e.status === 'pending').forEach(e => {
+      const next = plan.engagements.find(n =>
+        n.platformId === e.platformId && n.targetId === e.targetId && !continued.has(n)
+      );
+      if (next) {
+        continued.add(next);
+        next.since = e.since;
+        setStatus(e, 'reissued', `continued in plan #${plan.id}`);
+      } else {
+        setStatus(e, 'ignored', `not fired before plan #${plan.id} replaced it`);
+      }
+    });
+    logger.info('[Plan]', `Plan #${previous.id} superseded by #${plan.id}`, summarize(previous));
+  }
+
+  plans.push(plan);
+  if (plans.length > HISTORY_LIMIT) plans.shift();
+}
+
+/** 重发当前方案（如审批模式下重发已批准的方案）时延长其有效期 */
+export function refreshIssuedPlan(ttlSec: number) {
+  const plan = currentPlan();
+  if (plan) plan.expiresAt = Date.now() + ttlSec * 1000;
+}
+
+/** 开火事件：与当前方案中相同平台-目标对的交战匹配，没有时记为方案外开火 */
+export function recordPlanFired(event: FiredEvent) {
+  const plan = currentPlan();
+  if (!plan) return;
+
+  const samePair = plan.engagements.filter(e => e.platformId === event.platformId && e.targetId === event.targetId);
+  const match = samePair.find(e => e.status === 'pending') ?? samePair.find(e => e.status === 'executed');
+  if (!match) {
+    plan.unplannedShots++;
+    logger.info('[Plan]', `Platform #${event.platformId} fired at target #${event.targetId}, not in plan #${plan.id}`);
+    return;
+  }
+  match.shots++;
+  setStatus(match, 'executed', event.weapon ? `fired ${event.weapon}` : 'fired');
+}
+
+/**
+ * 实体被摧毁：当前方案中尚未执行的相关交战不再需要；
+ * 目标被摧毁时，所有保留的方案中已执行的对该目标的交战记为摧毁了目标
+ */
+export function recordPlanEntityKilled(entityType: string, entityId: number) {
+  const plan = currentPlan();
+  if (entityType === 'target') {
+    plans.forEach(p => p.engagements.forEach(e => {
+      if (e.targetId === entityId && e.status === 'executed' && !e.targetKilled) {
+        e.targetKilled = true;
+        e.updatedAt = new Date().toISOString();
+      }
+    }));
+    plan?.engagements
+      .filter(e => e.targetId === entityId && e.status === 'pending')
+      .forEach(e => setStatus(e, 'obsolete', `target #${entityId} destroyed`));
+  } else if (entityType === 'platform') {
+    plan?.engagements
+      .filter(e => e.platformId === entityId && e.status === 'pending')
+      .forEach(e => setStatus(e, 'obsolete', `platform #${entityId} lost`));
+  }
+}
+
+/** Arma确认中止交战：当前方案中尚未执行的该交战记为中止 */
+export function recordPlanAborted(platformId: number, targetId: number) {
+  currentPlan()?.engagements
+    .filter(e => e.platformId === platformId && e.targetId === targetId && e.status === 'pending')
+    .forEach(e => setStatus(e, 'aborted', 'aborted by operator'));
+}
+
+/** 已下发的方案，最新的在前 */
+export function issuedPlans(): IssuedPlan[] {
+  const now = Date.now();
+  return plans.map(p => ({
+    id: p.id,
+    reason: p.reason,
+    solver: p.solver,
+    issuedAt: new Date(p.issuedAt).toISOString(),
+    expiresAt: new Date(p.expiresAt).toISOString(),
+    state: (p.superseded ? 'superseded' : now > p.expiresAt ? 'expired' : 'active') as IssuedPlanState,
+    engagements: p.engagements.map(e => ({ ...e })),
+    unplannedShots: p.unplannedShots
+  })).reverse();
+}
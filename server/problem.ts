@@ -0,0 +1,39 @@
+/**
+ * 规划问题构建流程
+ * 服务器规划和离线基准测试共用，保证两者求解的是同一个问题：
+ * 学习到的命中概率 → 战备 → 运营人员约束 → 防空威胁 → 飞行时间 → 换目标惩罚
+ */
+import { PlanRequest, Engagement } from '../proto/generated/wta_messages';
+import { config } from './config';
+import { WTAProblem, buildProblem } from './solver/model';
+import { applyReadiness } from './solver/readiness';
+import { ConstraintStatus, OperatorConstraint, applyConstraints } from './solver/constraints';
+import { applyThreatRisk } from './solver/threat';
+import { applyTravelTime } from './solver/routing';
+import { applySwitchPenalty } from './solver/stability';
+import { learnedShotProb } from './outcomes';
+
+export interface PreparedProblem {
+  problem: WTAProblem;
+  /** 各运营人员约束在本次规划中的状态 */
+  constraints: ConstraintStatus[];
+}
+
+/**
+ * 由规划请求构建问题
+ * @param constraints 运营人员约束
+ * @param previous 上一方案的交战，用于换目标惩罚；没有时传空数组
+ */
+export function prepareProblem(
+  request: PlanRequest,
+  constraints: OperatorConstraint[],
+  previous: Engagement[]
+): PreparedProblem {
+  const problem = buildProblem(request, config.munitions, learnedShotProb(config.outcomes));
+  applyReadiness(problem, config.readiness);
+  const statuses = applyConstraints(problem, constraints);
+  applyThreatRisk(problem, config.threat);
+  applyTravelTime(problem, config.routing);
+  applySwitchPenalty(problem, previous, config.stability.switchPenalty);
+  return { problem, constraints: statuses };
+}
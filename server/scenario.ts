@@ -0,0 +1,150 @@
+/**
+ * WTA场景生成器
+ * 按规模、平台角色比例、目标类型比例、tier层数和前置依赖密度生成PlanRequest，
+ * 相同参数和种子生成相同场景，用于离线基准测试
+ */
+import {
+  PlanRequest,
+  PlatformState,
+  TargetState,
+  PlatformRole,
+  TargetKind,
+  MagazineDetail
+} from '../proto/generated/wta_messages';
+import { Random, createRandom, randomInt } from './solver/random';
+
+export type RoleName = 'anti_personnel' | 'anti_armor' | 'multi_role';
+export type KindName = 'infantry' | 'armor' | 'sam' | 'other';
+
+export interface ScenarioOptions {
+  platforms: number;
+  targets: number;
+  seed: number;
+  /** 平台角色权重 */
+  roleMix: Record<RoleName, number>;
+  /** 目标类型权重 */
+  kindMix: Record<KindName, number>;
+  /** tier层数（目标tier取 0..tiers-1） */
+  tiers: number;
+  /** tier大于0的目标依赖一个更低tier目标的概率 */
+  prerequisiteDensity: number;
+  /** 战场边长（米） */
+  areaSize: number;
+}
+
+export const DEFAULT_SCENARIO: ScenarioOptions = {
+  platforms: 10,
+  targets: 15,
+  seed: 1,
+  roleMix: { anti_personnel: 1, anti_armor: 1, multi_role: 1 },
+  kindMix: { infantry: 2, armor: 2, sam: 1, other: 1 },
+  tiers: 2,
+  prerequisiteDensity: 0.3,
+  areaSize: 8000
+};
+
+const ROLES: Record<RoleName, PlatformRole> = {
+  anti_personnel: PlatformRole.PLATFORM_ROLE_ANTI_PERSONNEL,
+  anti_armor: PlatformRole.PLATFORM_ROLE_ANTI_ARMOR,
+  multi_role: PlatformRole.PLATFORM_ROLE_MULTI_ROLE
+};
+
+const KINDS: Record<KindName, TargetKind> = {
+  infantry: TargetKind.TARGET_KIND_INFANTRY,
+  armor: TargetKind.TARGET_KIND_ARMOR,
+  sam: TargetKind.TARGET_KIND_SAM,
+  other: TargetKind.TARGET_KIND_OTHER
+};
+
+// 各角色可攻击的目标类型
+const ROLE_TARGETS: Record<RoleName, TargetKind[]> = {
+  anti_personnel: [TargetKind.TARGET_KIND_INFANTRY, TargetKind.TARGET_KIND_OTHER],
+  anti_armor: [TargetKind.TARGET_KIND_ARMOR, TargetKind.TARGET_KIND_SAM],
+  multi_role: []
+};
+
+const PLATFORM_TYPES = ['B_UAV_02_dynamicLoadout_F', 'B_UAV_05_F', 'O_UAV_02_dynamicLoadout_F'];
+
+/** 按权重随机选择 */
+function pick<K extends string>(random: Random, weights: Record<K, number>): K {
+  const entries = (Object.entries(weights) as [K, number][]).filter(([, w]) => w > 0);
+  const total = entries.reduce((sum, [, w]) => sum + w, 0);
+  let r = random() * total;
+  for (const [key, weight] of entries) {
+    r -= weight;
+    if (r < 0) return key;
+  }
+  return entries[entries.length - 1][0];
+}
+
+function between(random: Random, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+function createPlatform(random: Random, id: number, options: ScenarioOptions): PlatformState {
+  const role = pick(random, options.roleMix);
+  const missile = randomInt(random, 5);
+  const bomb = randomInt(random, 3);
+  const rocket = role === 'anti_personnel' ? 4 + randomInt(random, 9) : randomInt(random, 7);
+  const magazines: MagazineDetail[] = [
+    { name: '6Rnd_LG_scalpel', ammoCount: missile, loaded: true, type: 0, location: 'pylon' },
+    { name: '2Rnd_GBU12_LGB', ammoCount: bomb, loaded: false, type: 0, location: 'pylon' },
+    { name: '12Rnd_PG_missiles', ammoCount: rocket, loaded: false, type: 0, location: 'pylon' }
+  ].filter(m => m.ammoCount > 0);
+
+  return {
+    id,
+    role: ROLES[role],
+    pos: { x: random() * options.areaSize * 0.3, y: random() * options.areaSize },
+    alive: true,
+    hitProb: between(random, 0.5, 0.9),
+    cost: between(random, 1, 8),
+    maxRange: between(random, 0.4, 0.9) * options.areaSize,
+    maxTargets: 1 + randomInt(random, 3),
+    quantity: 1 + randomInt(random, 2),
+    ammo: { missile, bomb, rocket },
+    targetTypes: ROLE_TARGETS[role],
+    platformType: PLATFORM_TYPES[randomInt(random, PLATFORM_TYPES.length)],
+    magazines,
+    fuel: between(random, 0.5, 1),
+    damage: between(random, 0, 0.3)
+  };
+}
+
+function createTarget(random: Random, id: number, options: ScenarioOptions): TargetState {
+  const kind = pick(random, options.kindMix);
+  const tier = randomInt(random, Math.max(1, options.tiers));
+  return {
+    id,
+    kind: KINDS[kind],
+    pos: { x: between(random, 0.4, 1) * options.areaSize, y: random() * options.areaSize },
+    alive: true,
+    value: kind === 'sam' ? between(random, 40, 80) : between(random, 10, 60),
+    tier,
+    targetType: kind,
+    prerequisiteTargets: [],
+    threatRadius: 0,
+    threatKillProb: 0
+  };
+}
+
+export function generateScenario(options: ScenarioOptions): PlanRequest {
+  const random = createRandom(options.seed);
+  const platforms = Array.from({ length: options.platforms }, (_, i) => createPlatform(random, i + 1, options));
+  const targets = Array.from({ length: options.targets }, (_, j) => createTarget(random, 100 + j, options));
+
+  // 前置依赖只指向更低tier的目标，保证无环
+  targets.forEach(target => {
+    const lower = targets.filter(t => t.tier < target.tier);
+    if (lower.length > 0 && random() < options.prerequisiteDensity) {
+      target.prerequisiteTargets = [lower[randomInt(random, lower.length)].id];
+    }
+  });
+
+  return {
+    timestamp: 0,
+    reason: 'replan',
+    platforms,
+    targets
+  };
+}
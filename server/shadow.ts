@@ -0,0 +1,160 @@
+/**
+ * 影子求解器
+ * 对每个PlanRequest额外运行若干求解器，结果不发给Arma，
+ * 只与主求解器的方案对比（适应度、有效性、耗时、分配差异）并追加到对比报告（JSON Lines）
+ */
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { PlanResponse, Engagement } from '../proto/generated/wta_messages';
+import { logger } from './logger';
+import { WTAProblem, reportedFitness } from './solver/model';
+import { getSolver } from './solver/registry';
+import { solveWithDeadline } from './solver/pool';
+import { toEngagements } from './solver/plan';
+import { countChangedPlatforms } from './solver/stability';
+import { validatePlan } from './solver/validator';
+
+export interface ShadowOptions {
+  /** 影子求解器名称，为空表示关闭 */
+  solvers: string[];
+  /** 对比报告文件路径 */
+  reportPath: string;
+}
+
+export interface ShadowComparison {
+  solver: string;
+  fitness: number;
+  /** 相对主方案的适应度差（正值表示影子方案更优） */
+  fitnessDelta: number;
+  isValid: boolean;
+  violations: number;
+  computationTime: number;
+  /** 交战目标集合与主方案不同的平台数 */
+  changedPlatforms: number;
+  /** 影子方案有而主方案没有的交战数 */
+  addedEngagements: number;
+  /** 主方案有而影子方案没有的交战数 */
+  removedEngagements: number;
+  /** 超过截止时间、返回迄今最优解时的说明 */
+  degraded?: string;
+  error?: string;
+}
+
+/** 按 platform->target 计数的交战多重集 */
+function pairCounts(engagements: Engagement[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  engagements.forEach(e => {
+    const key = `${e.platformId}->${e.targetId}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/** a中多出b的交战数 */
+function excess(a: Map<string, number>, b: Map<string, number>): number {
+  let total = 0;
+  a.forEach((count, key) => {
+    total += Math.max(0, count - (b.get(key) ?? 0));
+  });
+  return total;
+}
+
+async function runOne(
+  name: string,
+  problem: WTAProblem,
+  primary: PlanResponse,
+  deadlineMs: number,
+  signal?: AbortSignal
+): Promise<ShadowComparison> {
+  const solver = getSolver(name);
+  if (!solver) throw new Error(`unknown solver "${name}"`);
+
+  const startTime = performance.now();
+  const result = await solveWithDeadline(problem, solver, deadlineMs, signal);
+  const computationTime = (performance.now() - startTime) / 1000;
+
+  const engagements = toEngagements(problem, result.assignment);
+  const validation = validatePlan(problem.request, engagements, problem.readiness);
+  const shadowPairs = pairCounts(engagements);
+  const primaryPairs = pairCounts(primary.engagements);
+  const fitness = reportedFitness(problem, result.assignment);
+  return {
+    solver: result.solver ? `${name}(${result.solver})` : name,
+    fitness,
+    fitnessDelta: fitness - primary.bestFitness,
+    isValid: validation.isValid,
+    violations: validation.violations.length,
+    computationTime,
+    changedPlatforms: countChangedPlatforms(problem.request, primary.engagements, engagements),
+    addedEngagements: excess(shadowPairs, primaryPairs),
+    removedEngagements: excess(primaryPairs, shadowPairs),
+    ...(result.degraded ? { degraded: result.degraded } : {})
+  };
+}
+
+/**
+ * 在主方案所用的同一问题上运行影子求解器（截止时间与主求解器相同），并写入对比报告
+ * 单个影子求解器失败只记录错误，不影响其他求解器；被取消时不写报告
+ */
+export async function runShadowSolvers(
+  problem: WTAProblem,
+  primary: PlanResponse,
+  options: ShadowOptions,
+  deadlineMs: number,
+  signal?: AbortSignal
+): Promise<ShadowComparison[]> {
+  const comparisons: ShadowComparison[] = [];
+  for (const name of options.solvers) {
+    try {
+      comparisons.push(await runOne(name, problem, primary, deadlineMs, signal));
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn('[Shadow]', `Shadow solver ${name} failed`, error instanceof Error ? error.message : error);
+      comparisons.push({
+        solver: name,
+        fitness: 0,
+        fitnessDelta: 0,
+        isValid: false,
+        violations: 0,
+        computationTime: 0,
+        changedPlatforms: 0,
+        addedEngagements: 0,
+        removedEngagements: 0,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  comparisons.forEach(c => {
+    if (c.error) return;
+    logger.info('[Shadow]', `${c.solver} vs ${primary.stats?.solver}`, {
+      fitnessDelta: c.fitnessDelta.toFixed(3),
+      valid: c.isValid,
+      timeMs: (c.computationTime * 1000).toFixed(1),
+      changedPlatforms: c.changedPlatforms
+    });
+  });
+
+  const record = {
+    timestamp: new Date().toISOString(),
+    reason: problem.request.reason,
+    nPlatforms: problem.platforms.length,
+    nTargets: problem.targets.length,
+    primary: {
+      solver: primary.stats?.solver ?? '',
+      fitness: primary.bestFitness,
+      isValid: primary.stats?.isValid ?? false,
+      computationTime: primary.stats?.computationTime ?? 0,
+      engagements: primary.engagements.length
+    },
+    shadows: comparisons
+  };
+  try {
+    await mkdir(dirname(options.reportPath), { recursive: true });
+    await appendFile(options.reportPath, JSON.stringify(record) + '\n');
+  } catch (error) {
+    logger.error('[Shadow]', `Failed to write comparison report ${options.reportPath}`, error);
+  }
+
+  return comparisons;
+}
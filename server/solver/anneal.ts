@@ -0,0 +1,121 @@
+/**
+ * 模拟退火求解器
+ * 从贪心解出发随机重分配武器槽位；降温进度和停止条件只取决于迭代次数，相同种子得到相同结果。
+ * 截止时间到达或任务取消时提前返回迄今最优解（此时结果取决于机器速度）
+ * 存在前置约束时按修复后的可行方案计分
+ */
+import { WTAProblem, SolveResult, Assignment, SolveControl, PROGRESS_INTERVAL_MS, UNASSIGNED, evaluate } from './model';
+import { solveGreedy } from './greedy';
+import { createRandom, randomInt } from './random';
+import { repair } from './sequencing';
+
+export interface AnnealOptions {
+  /** 随机种子 */
+  seed: number;
+  /** 迭代次数 */
+  maxIterations: number;
+  /** 初始温度（相对于平均目标价值的比例） */
+  initialTemperature: number;
+  /** 终止温度（相对于平均目标价值的比例） */
+  finalTemperature: number;
+}
+
+export function solveAnneal(problem: WTAProblem, options: AnnealOptions, control: SolveControl = {}): SolveResult {
+  const { onProgress, shouldStop } = control;
+  const nSlots = problem.slots.length;
+  const nTargets = problem.targets.length;
+  const start = performance.now();
+  const random = createRandom(options.seed);
+
+  const initial = solveGreedy(problem);
+  onProgress?.(initial);
+  if (nSlots === 0 || nTargets === 0) return initial;
+
+  // 每个槽位可攻击的目标
+  const candidates = problem.killProb.map(row =>
+    row.map((p, j) => (p > 0 ? j : UNASSIGNED)).filter(j => j !== UNASSIGNED)
+  );
+  const movable = candidates.map((_, i) => i).filter(i => candidates[i].length > 0 && problem.fixed[i] === UNASSIGNED);
+  if (movable.length === 0) return initial;
+
+  const meanValue = problem.values.reduce((a, b) => a + b, 0) / nTargets;
+  const t0 = Math.max(options.initialTemperature * meanValue, 1e-6);
+  const t1 = Math.max(Math.min(options.finalTemperature * meanValue, t0), 1e-9);
+
+  const current: Assignment = initial.assignment.slice();
+  let currentFitness = initial.fitness;
+  let best: Assignment = current.slice();
+  let bestFitness = currentFitness;
+
+  // 目标j在当前分配下的剩余存活概率
+  function survivalOf(j: number, assignment: Assignment): number {
+    let s = 1;
+    for (let i = 0; i < nSlots; i++) {
+      if (assignment[i] === j) s *= 1 - problem.killProb[i][j];
+    }
+    return s;
+  }
+
+  let iterations = 0;
+  let lastReport = start;
+  let improved = false;
+  while (iterations < options.maxIterations) {
+    if ((iterations & 0xff) === 0) {
+      const now = performance.now();
+      if (shouldStop?.()) break;
+      if (onProgress && improved && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        const feasible = repair(problem, best);
+        onProgress({ assignment: feasible, fitness: evaluate(problem, feasible), iterations });
+        lastReport = now;
+        improved = false;
+      }
+    }
+    iterations++;
+
+    const progress = iterations / options.maxIterations;
+    const temperature = t0 * Math.pow(t1 / t0, progress);
+
+    // 邻域操作：将一个槽位改派到其他可行目标，或取消分配
+    const i = movable[randomInt(random, movable.length)];
+    const choices = candidates[i];
+    const pick = randomInt(random, choices.length + 1);
+    const next = pick === choices.length ? UNASSIGNED : choices[pick];
+    const prev = current[i];
+    if (next === prev) continue;
+
+    let delta = 0;
+    if (problem.hasPrecedence) {
+      current[i] = next;
+      delta = evaluate(problem, repair(problem, current)) - currentFitness;
+    } else {
+      // 增量计算适应度变化（只影响新旧两个目标）
+      const affected = [prev, next].filter(j => j !== UNASSIGNED);
+      const before = affected.map(j => survivalOf(j, current));
+      current[i] = next;
+      const after = affected.map(j => survivalOf(j, current));
+      affected.forEach((j, k) => {
+        delta += problem.values[j] * (before[k] - after[k]);
+      });
+      if (prev !== UNASSIGNED) delta += problem.cost[i][prev];
+      if (next !== UNASSIGNED) delta -= problem.cost[i][next];
+    }
+
+    if (delta >= 0 || random() < Math.exp(delta / temperature)) {
+      currentFitness += delta;
+      if (currentFitness > bestFitness + 1e-9) {
+        bestFitness = currentFitness;
+        best = current.slice();
+        improved = true;
+      }
+    } else {
+      current[i] = prev;
+    }
+  }
+
+  const feasible = repair(problem, best);
+  return {
+    assignment: feasible,
+    fitness: evaluate(problem, feasible),
+    iterations
+  };
+}
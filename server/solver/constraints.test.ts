@@ -0,0 +1,60 @@
+import { expect, test } from 'vitest';
+import { UNASSIGNED } from './model';
+import { applyConstraints } from './constraints';
+import { platform, problemOf, target } from './fixtures';
+
+
+test('forbid makes the pair infeasible on every slot of the platform', () => {
+  const problem = problemOf([platform(1), platform(2)], [target(10), target(11)]);
+  const [status] = applyConstraints(problem, [{ id: 1, kind: 'forbid', platformId: 1, targetId: 10 }]);
+  expect(status.state).toBe('active');
+  problem.slots.forEach((slot, i) => {
+    expect(problem.killProb[i][0] > 0).toBe(slot.platform === 1);
+    expect(problem.killProb[i][1]).toBeGreaterThan(0);
+  });
+});
+
+test('pin fixes one slot of the platform to the target', () => {
+  const problem = problemOf([platform(1)], [target(10), target(11)]);
+  const statuses = applyConstraints(problem, [
+    { id: 1, kind: 'pin', platformId: 1, targetId: 11 },
+    { id: 2, kind: 'pin', platformId: 1, targetId: 10 }
+  ]);
+  expect(statuses.map(s => s.state)).toEqual(['active', 'active']);
+  expect([...problem.fixed].sort()).toEqual([0, 1]);
+  problem.fixed.forEach((j, i) => expect(problem.killProb[i][1 - j]).toBe(0));
+});
+
+test('pin is unsatisfiable when no free slot can engage the target', () => {
+  const problem = problemOf([platform(1, { maxTargets: 1 }), platform(2, { targetTypes: [1] })], [target(10), target(11)]);
+  const statuses = applyConstraints(problem, [
+    { id: 1, kind: 'pin', platformId: 1, targetId: 10 },
+    { id: 2, kind: 'pin', platformId: 1, targetId: 10 },
+    { id: 3, kind: 'pin', platformId: 2, targetId: 10 }
+  ]);
+  expect(statuses.map(s => s.state)).toEqual(['active', 'unsatisfiable', 'unsatisfiable']);
+  expect(statuses[1].reason).toMatch(/no free weapon slot/);
+  expect(statuses[2].reason).toMatch(/cannot engage/);
+  expect(problem.fixed.filter(j => j !== UNASSIGNED).length).toBe(1);
+});
+
+test('forbid is applied before pin on the same pair', () => {
+  const problem = problemOf([platform(1)], [target(10)]);
+  const statuses = applyConstraints(problem, [
+    { id: 1, kind: 'pin', platformId: 1, targetId: 10 },
+    { id: 2, kind: 'forbid', platformId: 1, targetId: 10 }
+  ]);
+  expect(statuses.map(s => s.state)).toEqual(['unsatisfiable', 'active']);
+  expect(problem.fixed.every(j => j === UNASSIGNED)).toBe(true);
+});
+
+test('constraints on destroyed targets or lost platforms are not applied', () => {
+  const problem = problemOf([platform(1), platform(2, { alive: false })], [target(10), target(11, { alive: false })]);
+  const statuses = applyConstraints(problem, [
+    { id: 1, kind: 'pin', platformId: 1, targetId: 11 },
+    { id: 2, kind: 'pin', platformId: 2, targetId: 10 },
+    { id: 3, kind: 'forbid', platformId: 2, targetId: 10 }
+  ]);
+  expect(statuses.map(s => s.state)).toEqual(['obsolete', 'unsatisfiable', 'obsolete']);
+  expect(problem.fixed.every(j => j === UNASSIGNED)).toBe(true);
+});
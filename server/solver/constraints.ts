@@ -0,0 +1,114 @@
+/**
+ * 运营人员约束
+ * pin：平台必须攻击目标（占用该平台一个可攻击该目标的武器槽位，写入problem.fixed）；
+ * forbid：平台不得攻击目标（该平台所有槽位对该目标不可行）。
+ * 约束在问题构建后、求解前计入，所有求解器看到的都是同一个受约束的问题
+ */
+import { PlatformState, TargetState } from '../../proto/generated/wta_messages';
+import { WTAProblem, UNASSIGNED } from './model';
+
+export type ConstraintKind = 'pin' | 'forbid';
+
+export interface OperatorConstraint {
+  id: number;
+  kind: ConstraintKind;
+  platformId: number;
+  targetId: number;
+}
+
+/**
+ * active：已计入规划；unsatisfiable：无法满足（如平台已损失或无法攻击该目标）；
+ * obsolete：不再需要（如目标已摧毁）
+ */
+export type ConstraintState = 'active' | 'unsatisfiable' | 'obsolete';
+
+export interface ConstraintStatus extends OperatorConstraint {
+  state: ConstraintState;
+  /** 非active时的原因 */
+  reason: string;
+}
+
+/** 按战场状态检查约束：平台或目标已不存在时不能再满足 */
+export function assessConstraints(
+  constraints: OperatorConstraint[],
+  platforms: PlatformState[],
+  targets: TargetState[]
+): ConstraintStatus[] {
+  const platformById = new Map(platforms.map(p => [p.id, p]));
+  const targetById = new Map(targets.map(t => [t.id, t]));
+
+  return constraints.map(c => {
+    const platform = platformById.get(c.platformId);
+    const target = targetById.get(c.targetId);
+    if (!target || !target.alive) {
+      return { ...c, state: 'obsolete', reason: `target #${c.targetId} is ${target ? 'destroyed' : 'not reported'}` };
+    }
+    if (!platform || !platform.alive) {
+      const reason = `platform #${c.platformId} is ${platform ? 'lost' : 'not reported'}`;
+      return { ...c, state: c.kind === 'pin' ? 'unsatisfiable' : 'obsolete', reason };
+    }
+    return { ...c, state: 'active', reason: '' };
+  });
+}
+
+/**
+ * 将约束计入问题
+ * forbid先于pin处理；同一平台的多个pin各占一个槽位，选择对该目标毁伤概率最高的空闲槽位，
+ * 其他目标对该槽位不可行。平台没有可攻击该目标的空闲槽位时pin无法满足
+ */
+export function applyConstraints(problem: WTAProblem, constraints: OperatorConstraint[]): ConstraintStatus[] {
+  const statuses = assessConstraints(constraints, problem.request.platforms, problem.request.targets);
+  const platformIndex = new Map(problem.platforms.map((p, k) => [p.id, k]));
+  const targetIndex = new Map(problem.targets.map((t, j) => [t.id, j]));
+  const slotsOf = (k: number) => problem.slots.map((_, i) => i).filter(i => problem.slots[i].platform === k);
+
+  const ordered = [...statuses.filter(s => s.kind === 'forbid'), ...statuses.filter(s => s.kind === 'pin')];
+  ordered.forEach(status => {
+    if (status.state !== 'active') return;
+    const k = platformIndex.get(status.platformId);
+    const j = targetIndex.get(status.targetId);
+    if (j === undefined) {
+      // 存活但不在问题中：价值为0的目标不参与规划
+      if (status.kind === 'pin') {
+        status.state = 'unsatisfiable';
+        status.reason = `target #${status.targetId} has no value and is not planned`;
+      }
+      return;
+    }
+    if (k === undefined) {
+      // 存活但不在问题中：没有弹药或不能再攻击
+      if (status.kind === 'pin') {
+        status.state = 'unsatisfiable';
+        status.reason = `platform #${status.platformId} has no ammo or weapon slots left`;
+      }
+      return;
+    }
+
+    if (status.kind === 'forbid') {
+      slotsOf(k).forEach(i => {
+        problem.killProb[i][j] = 0;
+        problem.munitions[i][j] = null;
+      });
+      return;
+    }
+
+    const free = slotsOf(k).filter(i => problem.fixed[i] === UNASSIGNED && problem.killProb[i][j] > 0);
+    if (free.length === 0) {
+      status.state = 'unsatisfiable';
+      status.reason = slotsOf(k).some(i => problem.killProb[i][j] > 0)
+        ? `platform #${status.platformId} has no free weapon slot for another pin`
+        : `platform #${status.platformId} cannot engage target #${status.targetId} ` +
+          '(range, target type, ammo, readiness or a forbid constraint)';
+      return;
+    }
+    const i = free.reduce((best, s) => (problem.killProb[s][j] > problem.killProb[best][j] ? s : best));
+    problem.fixed[i] = j;
+    problem.targets.forEach((_, other) => {
+      if (other === j) return;
+      problem.killProb[i][other] = 0;
+      problem.munitions[i][other] = null;
+    });
+  });
+
+  return statuses;
+}
@@ -0,0 +1,49 @@
+import { expect, test } from 'vitest';
+import { applyConstraints } from './constraints';
+import { editAssignment } from './edit';
+import { engagedPairs, platform, problemOf, target } from './fixtures';
+
+test('maps edited pairs to free slots of the platform', () => {
+  const problem = problemOf([platform(1), platform(2)], [target(10), target(11)]);
+  const { assignment, issues } = editAssignment(problem, [
+    { platformId: 1, targetId: 10 },
+    { platformId: 1, targetId: 11 },
+    { platformId: 2, targetId: 10 }
+  ]);
+  expect(issues).toEqual([]);
+  expect(engagedPairs(problem, assignment)).toEqual([[1, 10], [1, 11], [2, 10]]);
+});
+
+test('reports pairs without a feasible slot instead of assigning them', () => {
+  const problem = problemOf(
+    [platform(1, { maxRange: 500 }), platform(2, { targetTypes: [1] }), platform(3, { maxTargets: 1 })],
+    [target(10), target(11)]
+  );
+  applyConstraints(problem, [{ id: 1, kind: 'forbid', platformId: 3, targetId: 11 }]);
+  const { assignment, issues } = editAssignment(problem, [
+    { platformId: 1, targetId: 10 },
+    { platformId: 2, targetId: 10 },
+    { platformId: 3, targetId: 11 },
+    { platformId: 3, targetId: 10 },
+    { platformId: 3, targetId: 10 },
+    { platformId: 9, targetId: 10 }
+  ]);
+  expect(engagedPairs(problem, assignment)).toEqual([[3, 10]]);
+  expect(issues.length).toBe(5);
+  expect(issues[4]).toMatch(/unknown platform or target/);
+});
+
+test('keeps pinned engagements even when the edit drops them', () => {
+  const problem = problemOf([platform(1), platform(2)], [target(10), target(11)]);
+  applyConstraints(problem, [{ id: 1, kind: 'pin', platformId: 1, targetId: 11 }]);
+
+  expect(engagedPairs(problem, editAssignment(problem, []).assignment)).toEqual([[1, 11]]);
+
+  const { assignment, issues } = editAssignment(problem, [
+    { platformId: 1, targetId: 11 },
+    { platformId: 1, targetId: 10 },
+    { platformId: 2, targetId: 11 }
+  ]);
+  expect(issues).toEqual([]);
+  expect(engagedPairs(problem, assignment)).toEqual([[1, 10], [1, 11], [2, 11]]);
+});
@@ -0,0 +1,54 @@
+/**
+ * 运营人员修改方案
+ * 把修改后的平台-目标列表映射回原问题的槽位分配；运营人员约束固定的交战始终保留
+ */
+import { WTAProblem, Assignment, UNASSIGNED } from './model';
+
+export interface EditedPair {
+  platformId: number;
+  targetId: number;
+}
+
+export interface EditResult {
+  assignment: Assignment;
+  /** 无法执行的修改（未知平台/目标、该平台没有能攻击该目标的空闲武器槽位） */
+  issues: string[];
+}
+
+/**
+ * 从固定的交战出发，为每条修改后的交战选择该平台对目标毁伤概率最高的空闲槽位；
+ * 毁伤概率为0（射程、目标类型、弹药、燃油或禁止约束不可行）的槽位不会被选择
+ */
+export function editAssignment(problem: WTAProblem, edits: EditedPair[]): EditResult {
+  const platformIndex = new Map(problem.platforms.map((p, k) => [p.id, k]));
+  const targetIndex = new Map(problem.targets.map((t, j) => [t.id, j]));
+  const assignment = [...problem.fixed];
+  // 尚未与修改列表中的交战对应的固定槽位
+  const unclaimed = new Set(problem.fixed.flatMap((j, i) => (j === UNASSIGNED ? [] : [i])));
+  const issues: string[] = [];
+
+  edits.forEach(({ platformId, targetId }) => {
+    const k = platformIndex.get(platformId);
+    const j = targetIndex.get(targetId);
+    if (k === undefined || j === undefined) {
+      issues.push(`#${platformId} -> #${targetId}: unknown platform or target`);
+      return;
+    }
+
+    const slots = problem.slots.map((_, i) => i).filter(i => problem.slots[i].platform === k);
+    const pinned = slots.find(i => unclaimed.has(i) && problem.fixed[i] === j);
+    if (pinned !== undefined) {
+      unclaimed.delete(pinned);
+      return;
+    }
+
+    const free = slots.filter(i => assignment[i] === UNASSIGNED && problem.killProb[i][j] > 0);
+    if (free.length === 0) {
+      issues.push(`#${platformId} -> #${targetId}: no free weapon slot can engage this target`);
+      return;
+    }
+    assignment[free.reduce((best, i) => (problem.killProb[i][j] > problem.killProb[best][j] ? i : best))] = j;
+  });
+
+  return { assignment, issues };
+}
@@ -0,0 +1,33 @@
+import { expect, test } from 'vitest';
+import { config } from '../config';
+import { buildProblem } from './model';
+import { solveExact } from './exact';
+import { solveGreedy } from './greedy';
+import { platform, problemOf, randomRequest, target } from './fixtures';
+
+test('exact search closes the gap where greedy commits the versatile platform first', () => {
+  // 平台1可攻击两个目标，平台2只能攻击目标10；贪心先把平台1分给目标10，目标11无人攻击
+  const problem = problemOf(
+    [
+      platform(1, { hitProb: 0.9, cost: 0.1, maxTargets: 1 }),
+      platform(2, { hitProb: 0.8, cost: 0.1, maxTargets: 1, targetTypes: [2] })
+    ],
+    [target(10), target(11, { kind: 1 })]
+  );
+
+  const greedy = solveGreedy(problem);
+  const exact = solveExact(problem, { timeBudgetMs: 1000 });
+  expect(exact.provenOptimal).toBe(true);
+  expect(exact.fitness).toBeCloseTo(16.8);
+  expect(exact.fitness - greedy.fitness).toBeGreaterThan(5);
+});
+
+test('exact is never worse than greedy on small random scenarios', () => {
+  for (let seed = 1; seed <= 5; seed++) {
+    const problem = buildProblem(randomRequest(seed, 4, 6), config.munitions);
+    const greedy = solveGreedy(problem);
+    const exact = solveExact(problem, { timeBudgetMs: 2000 });
+    expect(exact.provenOptimal, `seed ${seed}`).toBe(true);
+    expect(exact.fitness, `seed ${seed}`).toBeGreaterThanOrEqual(greedy.fitness - 1e-9);
+  }
+});
@@ -0,0 +1,140 @@
+/**
+ * 分支定界精确求解器
+ * 适用于小规模场景，在时间预算内给出可证明的最优方案
+ */
+import { WTAProblem, SolveResult, Assignment, SolveControl, PROGRESS_INTERVAL_MS, UNASSIGNED, evaluate } from './model';
+import { solveGreedy } from './greedy';
+import { repair } from './sequencing';
+
+export interface ExactOptions {
+  /** 搜索时间预算（毫秒），超时返回当前最优解 */
+  timeBudgetMs: number;
+}
+
+export function solveExact(problem: WTAProblem, options: ExactOptions, control: SolveControl = {}): SolveResult {
+  const { onProgress, shouldStop } = control;
+  const nSlots = problem.slots.length;
+  const nTargets = problem.targets.length;
+  const deadline = performance.now() + options.timeBudgetMs;
+
+  // 以贪心解作为初始下界
+  const incumbent = solveGreedy(problem);
+  let bestFitness = incumbent.fitness;
+  let bestAssignment: Assignment = incumbent.assignment.slice();
+  onProgress?.(incumbent);
+  let lastReport = performance.now();
+  let improved = false;
+
+  // 固定的槽位在前，其余按最大单体收益降序搜索，尽早收紧下界
+  const isFixed = (i: number) => problem.fixed[i] !== UNASSIGNED;
+  const order = Array.from({ length: nSlots }, (_, i) => i).sort((a, b) => {
+    if (isFixed(a) !== isFixed(b)) return isFixed(a) ? -1 : 1;
+    const gainA = Math.max(0, ...problem.killProb[a].map((p, j) => problem.values[j] * p - problem.cost[a][j]));
+    const gainB = Math.max(0, ...problem.killProb[b].map((p, j) => problem.values[j] * p - problem.cost[b][j]));
+    return gainB - gainA;
+  });
+
+  // 作为前置条件的目标即使自身收益为负也可能值得攻击（解锁后续目标）
+  const isPrerequisite = problem.targets.map(() => false);
+  problem.prerequisites.forEach(list => list.forEach(k => { isPrerequisite[k] = true; }));
+
+  const assignment: Assignment = problem.slots.map(() => UNASSIGNED);
+  const survival = problem.targets.map(() => 1);
+  let nodes = 0;
+  let timedOut = false;
+
+  /**
+   * 上界：当前值 + 剩余槽位各自在当前状态下的最大边际收益
+   * 目标函数关于分配集合是次模的，边际收益只会递减，因此该上界有效
+   */
+  function upperBound(depth: number, current: number): number {
+    let bound = current;
+    for (let k = depth; k < nSlots; k++) {
+      const i = order[k];
+      let best = 0;
+      for (let j = 0; j < nTargets; j++) {
+        const p = problem.killProb[i][j];
+        if (p <= 0) continue;
+        best = Math.max(best, problem.values[j] * survival[j] * p - problem.cost[i][j]);
+      }
+      bound += best;
+    }
+    return bound;
+  }
+
+  function search(depth: number, current: number) {
+    nodes++;
+    if ((nodes & 0x3ff) === 0) {
+      const now = performance.now();
+      if (now > deadline || shouldStop?.()) timedOut = true;
+      if (onProgress && improved && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        onProgress({ assignment: bestAssignment.slice(), fitness: bestFitness, iterations: nodes });
+        lastReport = now;
+        improved = false;
+      }
+    }
+    if (timedOut) return;
+
+    if (depth === nSlots) {
+      // 存在前置约束时，叶节点按修复后的可行方案计分
+      const candidate = problem.hasPrecedence ? repair(problem, assignment) : assignment;
+      const fitness = problem.hasPrecedence ? evaluate(problem, candidate) : current;
+      if (fitness > bestFitness + 1e-9) {
+        bestFitness = fitness;
+        bestAssignment = candidate.slice();
+        improved = true;
+      }
+      return;
+    }
+
+    if (upperBound(depth, current) <= bestFitness + 1e-9) return;
+
+    const i = order[depth];
+
+    // 固定的槽位只有一个分支
+    if (isFixed(i)) {
+      const target = problem.fixed[i];
+      const prevSurvival = survival[target];
+      const gain = problem.values[target] * survival[target] * problem.killProb[i][target] - problem.cost[i][target];
+      assignment[i] = target;
+      survival[target] *= 1 - problem.killProb[i][target];
+      search(depth + 1, current + gain);
+      survival[target] = prevSurvival;
+      assignment[i] = UNASSIGNED;
+      return;
+    }
+
+    // 按边际收益降序展开分支
+    const branches: { target: number; gain: number }[] = [];
+    for (let j = 0; j < nTargets; j++) {
+      const p = problem.killProb[i][j];
+      if (p <= 0) continue;
+      const gain = problem.values[j] * survival[j] * p - problem.cost[i][j];
+      if (gain > 0 || isPrerequisite[j]) branches.push({ target: j, gain });
+    }
+    branches.sort((a, b) => b.gain - a.gain);
+
+    for (const { target, gain } of branches) {
+      const prevSurvival = survival[target];
+      assignment[i] = target;
+      survival[target] *= 1 - problem.killProb[i][target];
+      search(depth + 1, current + gain);
+      survival[target] = prevSurvival;
+      assignment[i] = UNASSIGNED;
+      if (timedOut) return;
+    }
+
+    // 不分配该槽位
+    search(depth + 1, current);
+  }
+
+  search(0, 0);
+
+  return {
+    assignment: bestAssignment,
+    fitness: evaluate(problem, bestAssignment),
+    iterations: nodes,
+    provenOptimal: !timedOut,
+    nodesExplored: nodes
+  };
+}
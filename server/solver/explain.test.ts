@@ -0,0 +1,27 @@
+import { expect, test } from 'vitest';
+import { explainAssignment } from './explain';
+import { platform, problemOf, target } from './fixtures';
+
+test('explanations leave out the solver-only cost bias', () => {
+  const problem = problemOf([platform(1, { maxTargets: 1 })], [target(10), target(11)]);
+  // 继续上一方案的交战时求解使用的代价降低0.5
+  problem.cost[0][0] -= 0.5;
+  problem.costBias[0][0] -= 0.5;
+
+  const [explanation] = explainAssignment(problem, [0]);
+  expect(explanation?.cost).toBeCloseTo(1);
+  expect(explanation?.netGain).toBeCloseTo(10 * 0.8 - 1);
+  expect(explanation?.alternativeTargetId).toBe(11);
+  expect(explanation?.alternativeGain).toBeCloseTo(10 * 0.8 - 1);
+});
+
+test('explanations leave out the SAM suppression value bonus', () => {
+  const problem = problemOf([platform(1, { maxTargets: 1 })], [target(10, { kind: 3 }), target(11)]);
+  problem.values[0] += 5;
+  problem.valueBias[0] += 5;
+
+  const [explanation] = explainAssignment(problem, [0]);
+  expect(explanation?.expectedValue).toBeCloseTo(10 * 0.8);
+  expect(explanation?.netGain).toBeCloseTo(10 * 0.8 - 1);
+  expect(explanation?.alternativeGain).toBeCloseTo(10 * 0.8 - 1);
+});
@@ -0,0 +1,48 @@
+/**
+ * 决策解释
+ * 对每个已分配槽位做边际分析：其他交战保持不变时，该交战贡献的期望价值、代价，
+ * 以及该槽位未被选择的最佳替代目标；与报告的适应度一致，价值和代价不含只用于引导求解的valueBias、costBias
+ */
+import { EngagementExplanation } from '../../proto/generated/wta_messages';
+import { WTAProblem, Assignment, UNASSIGNED, survivalProbs } from './model';
+
+export function explainAssignment(problem: WTAProblem, assignment: Assignment): (EngagementExplanation | undefined)[] {
+  const survival = survivalProbs(problem, assignment);
+  const values = problem.values.map((v, j) => v - problem.valueBias[j]);
+
+  return assignment.map((j, i) => {
+    if (j === UNASSIGNED) return undefined;
+
+    // 目标k在去掉本槽位后的剩余存活概率
+    const survivalWithout = (k: number) => {
+      if (k !== j) return survival[k];
+      const p = problem.killProb[i][j];
+      return p < 1 ? survival[j] / (1 - p) : survivalProbs(problem, assignment.map((t, m) => (m === i ? UNASSIGNED : t)))[j];
+    };
+
+    const killProb = problem.killProb[i][j];
+    const cost = problem.cost[i][j] - problem.costBias[i][j];
+    const expectedValue = values[j] * survivalWithout(j) * killProb;
+
+    let alternativeTargetId = -1;
+    let alternativeGain = 0;
+    problem.targets.forEach((target, k) => {
+      const p = problem.killProb[i][k];
+      if (k === j || p <= 0) return;
+      const gain = values[k] * survivalWithout(k) * p - (problem.cost[i][k] - problem.costBias[i][k]);
+      if (alternativeTargetId === -1 || gain > alternativeGain) {
+        alternativeTargetId = target.id;
+        alternativeGain = gain;
+      }
+    });
+
+    return {
+      expectedValue,
+      killProb,
+      cost,
+      netGain: expectedValue - cost,
+      alternativeTargetId,
+      alternativeGain
+    };
+  });
+}
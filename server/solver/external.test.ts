@@ -0,0 +1,39 @@
+import { afterEach, expect, test } from 'vitest';
+import { solveExternal, splitCommand, stopExternalSolver } from './external';
+import { platform, problemOf, target } from './fixtures';
+
+// 启动后从不应答的外部求解器
+const silent = { command: `node -e "setInterval(() => {}, 1000)"`, timeoutMs: 300 };
+
+afterEach(() => stopExternalSolver());
+
+test('splits commands with quotes inside arguments and escaped quotes', () => {
+  expect(splitCommand('python solver.py --opt="a b" --name=\'x y\'')).toEqual(['python', 'solver.py', '--opt=a b', '--name=x y']);
+  expect(splitCommand('solver "say \\"hi\\"" it\\\'s \'\'')).toEqual(['solver', 'say "hi"', "it's", '']);
+  expect(splitCommand('C:\\Python\\python.exe "C:\\My Solvers\\wta.py"')).toEqual(['C:\\Python\\python.exe', 'C:\\My Solvers\\wta.py']);
+  expect(splitCommand('["python", "-c", "print(\\"a b\\")"]')).toEqual(['python', '-c', 'print("a b")']);
+  expect(() => splitCommand('solver "unterminated')).toThrow(/unterminated/);
+});
+
+test('the reply deadline of a queued request starts when it is queued', async () => {
+  const problem = problemOf([platform(1)], [target(10)]);
+  const startTime = performance.now();
+  const first = solveExternal(problem, silent);
+  const second = solveExternal(problem, silent);
+  await expect(first).rejects.toThrow(/no reply within 300ms/);
+  await expect(second).rejects.toThrow(/no reply within 300ms/);
+  // 第二个请求排在第一个之后，但不会再等待完整的300ms
+  expect(performance.now() - startTime).toBeLessThan(550);
+});
+
+test('a queued request fails as soon as it is cancelled', async () => {
+  const problem = problemOf([platform(1)], [target(10)]);
+  const controller = new AbortController();
+  const first = solveExternal(problem, silent);
+  const second = solveExternal(problem, silent, controller.signal);
+  const startTime = performance.now();
+  controller.abort();
+  await expect(second).rejects.toThrow('cancelled');
+  expect(performance.now() - startTime).toBeLessThan(100);
+  await expect(first).rejects.toThrow(/no reply/);
+});
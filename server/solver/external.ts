@@ -0,0 +1,297 @@
+/**
+ * 外部求解器桥接
+ * 通过子进程的stdin/stdout与外部（如Python）求解器交换Protobuf消息：
+ * 每帧为 4字节大端长度 + WTAMessage，请求携带planRequest，应答携带planResponse。
+ * 应答帧不带请求ID，只能按顺序与请求对应，因此同一时刻只有一个请求在外部求解器中，其余排队
+ */
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { WTAMessage, PlanRequest, PlanResponse } from '../../proto/generated/wta_messages';
+import { logger } from '../logger';
+import { WTAProblem, SolveResult, UNASSIGNED, evaluate } from './model';
+import { repair } from './sequencing';
+
+export interface ExternalOptions {
+  /** 启动外部求解器的命令，为空表示未配置 */
+  command: string;
+  /** 等待应答的期限（毫秒），从请求排队时开始计算 */
+  timeoutMs: number;
+}
+
+// 单帧长度上限，防止异常输出耗尽内存
+const MAX_FRAME_BYTES = 16 * 1024 * 1024;
+
+interface PendingReply {
+  resolve: (frame: Buffer) => void;
+  reject: (error: Error) => void;
+}
+
+let child: ChildProcessWithoutNullStreams | null = null;
+let received = Buffer.alloc(0);
+let pending: PendingReply | null = null;
+// 上一个请求结束（无论成败）后才发送下一个
+let queueTail: Promise<unknown> = Promise.resolve();
+
+/**
+ * 将命令行拆分为程序和参数，不经过shell启动，终止时直接结束求解器本身，不会留下脱离控制的子进程
+ * 以 [ 开头时按JSON字符串数组读取；否则按空白拆分，单双引号可出现在参数中间（如 --opt="a b"），
+ * 反斜杠只转义引号（Windows路径中的反斜杠保持原样），单引号内不转义
+ */
+export function splitCommand(command: string): string[] {
+  if (command.trimStart().startsWith('[')) {
+    const args: unknown = JSON.parse(command);
+    if (!Array.isArray(args) || args.length === 0 || args.some(a => typeof a !== 'string')) {
+      throw new Error('external solver command must be a non-empty JSON array of strings');
+    }
+    return args;
+  }
+
+  const args: string[] = [];
+  let current: string | null = null;
+  let quote: string | null = null;
+  for (let k = 0; k < command.length; k++) {
+    const c = command[k];
+    const next = command[k + 1];
+    const escaped = c === '\\' && (quote === null ? next === '"' || next === "'" : quote === '"' && next === '"');
+    if (escaped) {
+      current = (current ?? '') + command[++k];
+    } else if (quote) {
+      if (c === quote) quote = null;
+      else current += c;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+      current = current ?? '';
+    } else if (/\s/.test(c)) {
+      if (current !== null) args.push(current);
+      current = null;
+    } else {
+      current = (current ?? '') + c;
+    }
+  }
+  if (quote) throw new Error(`unterminated ${quote} in external solver command`);
+  if (current !== null) args.push(current);
+  return args;
+}
+
+function failPending(error: Error) {
+  const waiting = pending;
+  pending = null;
+  waiting?.reject(error);
+}
+
+// 从stdout缓冲中切分完整帧
+function drainFrames(proc: ChildProcessWithoutNullStreams) {
+  while (received.length >= 4) {
+    const length = received.readUInt32BE(0);
+    if (length > MAX_FRAME_BYTES) {
+      failPending(new Error(`frame length ${length} exceeds limit`));
+      proc.kill();
+      return;
+    }
+    if (received.length < 4 + length) return;
+
+    const frame = received.subarray(4, 4 + length);
+    received = received.subarray(4 + length);
+    if (pending) {
+      const waiting = pending;
+      pending = null;
+      waiting.resolve(frame);
+    } else {
+      logger.warn('[External]', `Dropped unexpected frame (${length} bytes)`);
+    }
+  }
+}
+
+// 获取存活的求解器进程，不存在时启动
+function ensureProcess(command: string): ChildProcessWithoutNullStreams {
+  if (child) return child;
+
+  logger.info('[External]', `Starting external solver: ${command}`);
+  const [file, ...args] = splitCommand(command);
+  const proc = spawn(file, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+  received = Buffer.alloc(0);
+
+  // 已被替换的旧进程的输出和退出事件一律忽略，避免与新请求错配
+  proc.stdout.on('data', (chunk: Buffer) => {
+    if (child !== proc) return;
+    received = Buffer.concat([received, chunk]);
+    drainFrames(proc);
+  });
+  proc.stderr.on('data', (chunk: Buffer) => {
+    logger.debug('[External]', chunk.toString().trimEnd());
+  });
+  proc.stdin.on('error', (error) => {
+    if (child !== proc) return;
+    failPending(new Error(`stdin write failed: ${error.message}`));
+  });
+  proc.on('error', (error) => {
+    logger.error('[External]', 'External solver process error', error);
+    if (child !== proc) return;
+    child = null;
+    failPending(error);
+  });
+  proc.on('exit', (code, signal) => {
+    logger.warn('[External]', `External solver exited (code=${code}, signal=${signal})`);
+    if (child !== proc) return;
+    child = null;
+    failPending(new Error(`process exited (code=${code}, signal=${signal})`));
+  });
+
+  child = proc;
+  return proc;
+}
+
+export function stopExternalSolver() {
+  if (child) {
+    child.kill();
+    child = null;
+  }
+}
+
+/**
+ * 请求排队，等前一个请求结束后再发送
+ * 期限从排队时开始计算，排队等待的时间同样计入；排队期间被取消时立即失败
+ */
+function exchange(request: PlanRequest, options: ExternalOptions, signal?: AbortSignal): Promise<PlanResponse> {
+  const deadline = Date.now() + options.timeoutMs;
+  const run = queueTail.then(() => sendRequest(request, options, deadline, signal));
+  queueTail = run.catch(() => undefined);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error('cancelled'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    run.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+}
+
+// 发送一次规划请求并等待应答；到达期限或取消时终止进程
+function sendRequest(
+  request: PlanRequest,
+  options: ExternalOptions,
+  deadline: number,
+  signal?: AbortSignal
+): Promise<PlanResponse> {
+  if (signal?.aborted) return Promise.reject(new Error('cancelled'));
+  const remainingMs = deadline - Date.now();
+  if (remainingMs <= 0) {
+    return Promise.reject(new Error(`no reply within ${options.timeoutMs}ms (expired while queued)`));
+  }
+
+  const proc = ensureProcess(options.command);
+  const payload = WTAMessage.encode(WTAMessage.create({ planRequest: request })).finish();
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(payload.length);
+
+  return new Promise((resolve, reject) => {
+    // 进程可能稍后才输出被放弃请求的应答，直接终止，下次请求时重启
+    const abandon = (error: Error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      pending = null;
+      if (child === proc) child = null;
+      proc.kill();
+      reject(error);
+    };
+    const onAbort = () => abandon(new Error('cancelled'));
+    const timer = setTimeout(() => abandon(new Error(`no reply within ${options.timeoutMs}ms`)), remainingMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pending = {
+      resolve: (frame) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        try {
+          const message = WTAMessage.decode(frame);
+          if (!message.planResponse) {
+            reject(new Error('reply does not contain a planResponse'));
+          } else {
+            resolve(message.planResponse);
+          }
+        } catch (error) {
+          reject(new Error(`reply decode failed: ${String(error)}`));
+        }
+      },
+      reject: (error) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    };
+
+    proc.stdin.write(Buffer.concat([header, Buffer.from(payload)]));
+  });
+}
+
+/**
+ * 调用外部求解器
+ * 未配置、超时、崩溃、被取消或应答无效时抛出异常，由调用方退回内置求解器
+ */
+export async function solveExternal(problem: WTAProblem, options: ExternalOptions, signal?: AbortSignal): Promise<SolveResult> {
+  if (!options.command) {
+    throw new Error('external solver command not configured');
+  }
+
+  const response = await exchange(problem.request, options, signal);
+  if (response.status !== 'ok') {
+    throw new Error(`external solver returned status "${response.status}": ${response.errorMsg}`);
+  }
+
+  // 优先读取交战列表，否则读取旧版assignment映射；每条交战占用所属平台的下一个空闲槽位
+  const pairs = response.engagements.length > 0
+    ? response.engagements.map(e => ({ platformId: e.platformId, targetId: e.targetId }))
+    : Object.entries(response.assignment).map(([platformId, targetId]) => ({ platformId: Number(platformId), targetId }));
+
+  // 应答中的ID必须对应本次请求中的可用平台和存活目标；运营人员固定的槽位预先分配，
+  // 应答中与之相同的交战计入固定槽位
+  const freeSlots = new Map<number, number[]>();
+  const pinned = new Map<string, number>();
+  problem.slots.forEach((slot, i) => {
+    const id = problem.platforms[slot.platform].id;
+    if (problem.fixed[i] !== UNASSIGNED) {
+      const key = `${id}->${problem.targets[problem.fixed[i]].id}`;
+      pinned.set(key, (pinned.get(key) ?? 0) + 1);
+      return;
+    }
+    freeSlots.set(id, [...(freeSlots.get(id) ?? []), i]);
+  });
+  const targetIndex = new Map(problem.targets.map((t, j) => [t.id, j]));
+  const assignment = problem.fixed.slice();
+  let infeasible = 0;
+  for (const { platformId, targetId } of pairs) {
+    const key = `${platformId}->${targetId}`;
+    if ((pinned.get(key) ?? 0) > 0) {
+      pinned.set(key, pinned.get(key)! - 1);
+      continue;
+    }
+    const slots = freeSlots.get(platformId);
+    const j = targetIndex.get(targetId);
+    if (j === undefined || (slots === undefined && !problem.platforms.some(p => p.id === platformId))) {
+      throw new Error(`reply assigns unknown platform ${platformId} or target ${targetId}`);
+    }
+    const i = slots?.shift();
+    if (i === undefined) {
+      throw new Error(`reply assigns more engagements to platform ${platformId} than it has weapon slots`);
+    }
+    // 外部求解器看不到禁止的平台-目标对和战备规则，这类交战丢弃
+    if (problem.killProb[i][j] <= 0) {
+      infeasible++;
+      slots!.unshift(i);
+      continue;
+    }
+    assignment[i] = j;
+  }
+  if (infeasible > 0) {
+    logger.warn('[External]', `Dropped ${infeasible} assignment(s) to forbidden or infeasible platform-target pairs`);
+  }
+
+  const feasible = repair(problem, assignment);
+  const dropped = feasible.filter((j, i) => j !== assignment[i] && assignment[i] !== UNASSIGNED).length;
+  if (dropped > 0) {
+    logger.warn('[External]', `Dropped ${dropped} assignment(s) violating prerequisite constraints`);
+  }
+
+  return {
+    assignment: feasible,
+    fitness: evaluate(problem, feasible),
+    iterations: response.stats?.iterations ?? 0
+  };
+}
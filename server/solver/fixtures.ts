@@ -0,0 +1,54 @@
+/**
+ * 单元测试共用的消息与问题构造
+ * 未给出的字段取protobuf默认值，用例只写与其相关的字段
+ */
+import { Engagement, PlanRequest, PlatformState, TargetState } from '../../proto/generated/wta_messages';
+import { config } from '../config';
+import { Assignment, UNASSIGNED, WTAProblem, buildProblem } from './model';
+
+/** 位于原点、射程5000米、可攻击任意类型目标的平台 */
+export function platform(id: number, fields: Partial<PlatformState> = {}): PlatformState {
+  return PlatformState.fromPartial({
+    id, pos: { x: 0, y: 0 }, alive: true, hitProb: 0.8, cost: 1, maxRange: 5000, maxTargets: 2, quantity: 1, ...fields
+  });
+}
+
+/** 距原点1000米的装甲目标 */
+export function target(id: number, fields: Partial<TargetState> = {}): TargetState {
+  return TargetState.fromPartial({ id, kind: 2, pos: { x: 1000, y: 0 }, alive: true, value: 10, ...fields });
+}
+
+export function request(platforms: PlatformState[], targets: TargetState[]): PlanRequest {
+  return PlanRequest.fromPartial({ reason: 'test', platforms, targets });
+}
+
+export function problemOf(platforms: PlatformState[], targets: TargetState[]): WTAProblem {
+  return buildProblem(request(platforms, targets), config.munitions);
+}
+
+/** 发射一枚导弹的交战 */
+export function engagement(platformId: number, targetId: number, wave = 0): Engagement {
+  return Engagement.fromPartial({ platformId, targetId, munition: 'missile', rounds: 1, wave });
+}
+
+/** 分配方案中的[平台ID, 目标ID]，按平台、目标排序 */
+export function engagedPairs(problem: WTAProblem, assignment: Assignment): number[][] {
+  return assignment
+    .flatMap((j, i) => (j === UNASSIGNED ? [] : [[problem.platforms[problem.slots[i].platform].id, problem.targets[j].id]]))
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+}
+
+/** 可复现的随机场景（线性同余），平台与目标散布在10km见方的区域内 */
+export function randomRequest(seed: number, nPlatforms: number, nTargets: number): PlanRequest {
+  let state = seed;
+  const next = () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648;
+  const pos = () => ({ x: next() * 10000, y: next() * 10000 });
+  return request(
+    Array.from({ length: nPlatforms }, (_, i) => platform(i + 1, {
+      pos: pos(), hitProb: 0.5 + next() * 0.4, cost: next() * 2, maxRange: 4000 + next() * 6000
+    })),
+    Array.from({ length: nTargets }, (_, j) => target(100 + j, {
+      kind: 1 + Math.floor(next() * 3), pos: pos(), value: 5 + next() * 15
+    }))
+  );
+}
@@ -0,0 +1,29 @@
+import { expect, test } from 'vitest';
+import { engagedPairs, platform, problemOf, target } from './fixtures';
+import { solveGreedy } from './greedy';
+
+test('assigns each platform to the target with the largest marginal gain', () => {
+  const problem = problemOf(
+    [platform(1, { maxTargets: 1 }), platform(2, { maxTargets: 1 })],
+    [target(10), target(11, { value: 20 })]
+  );
+  const result = solveGreedy(problem);
+  // 平台1先攻击价值更高的目标11；平台2再攻击11的收益（20×0.2×0.8-1）低于攻击10（10×0.8-1）
+  expect(engagedPairs(problem, result.assignment)).toEqual([[1, 11], [2, 10]]);
+  expect(result.fitness).toBeCloseTo(16 + 8 - 2);
+});
+
+test('leaves platforms idle when no engagement pays for its cost', () => {
+  const problem = problemOf([platform(1, { cost: 9 })], [target(10)]);
+  const result = solveGreedy(problem);
+  expect(engagedPairs(problem, result.assignment)).toEqual([]);
+  expect(result.fitness).toBe(0);
+});
+
+test('never assigns out-of-range or wrong-type targets', () => {
+  const problem = problemOf(
+    [platform(1, { maxRange: 500 }), platform(2, { targetTypes: [1] })],
+    [target(10)]
+  );
+  expect(engagedPairs(problem, solveGreedy(problem).assignment)).toEqual([]);
+});
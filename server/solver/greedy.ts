@@ -0,0 +1,55 @@
+/**
+ * 贪心边际收益求解器
+ * 每轮选择边际收益最大的槽位-目标对，直到没有正收益的分配
+ * 前置目标尚未分配的目标不参与选择；运营人员固定的槽位预先分配
+ */
+import { WTAProblem, SolveResult, UNASSIGNED, emptyAssignment, evaluate } from './model';
+import { isUnlocked } from './sequencing';
+
+export function solveGreedy(problem: WTAProblem): SolveResult {
+  const assignment = emptyAssignment(problem);
+  const survival = problem.targets.map(() => 1);
+  const assignedCount = problem.targets.map(() => 0);
+  let iterations = 0;
+
+  problem.fixed.forEach((j, i) => {
+    if (j === UNASSIGNED) return;
+    assignment[i] = j;
+    survival[j] *= 1 - problem.killProb[i][j];
+    assignedCount[j]++;
+  });
+
+  while (true) {
+    iterations++;
+    let bestGain = 0;
+    let bestSlot = UNASSIGNED;
+    let bestTarget = UNASSIGNED;
+
+    for (let i = 0; i < problem.slots.length; i++) {
+      if (assignment[i] !== UNASSIGNED) continue;
+      for (let j = 0; j < problem.targets.length; j++) {
+        const p = problem.killProb[i][j];
+        if (p <= 0 || !isUnlocked(problem, j, assignedCount)) continue;
+        // 边际收益：目标剩余价值 × 本次毁伤概率 - 代价
+        const gain = problem.values[j] * survival[j] * p - problem.cost[i][j];
+        if (gain > bestGain) {
+          bestGain = gain;
+          bestSlot = i;
+          bestTarget = j;
+        }
+      }
+    }
+
+    if (bestSlot === UNASSIGNED) break;
+
+    assignment[bestSlot] = bestTarget;
+    survival[bestTarget] *= 1 - problem.killProb[bestSlot][bestTarget];
+    assignedCount[bestTarget]++;
+  }
+
+  return {
+    assignment,
+    fitness: evaluate(problem, assignment),
+    iterations
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * WTA问题模型
+ * 将PlanRequest转换为求解器使用的矩阵形式，并提供统一的适应度计算
+ */
+import { PlanRequest, PlatformState, TargetState, AmmoState, PlatformReadiness } from '../../proto/generated/wta_messages';
+import { MunitionChoice, MunitionOptions, ShotProbAdjuster, chooseMunition, splitSalvos } from './munitions';
+
+/** 武器槽位：平台的一次交战机会，携带分到该槽位的弹药 */
+export interface WeaponSlot {
+  /** 所属平台下标 */
+  platform: number;
+  /** 槽位可用弹药，平台未上报弹药时为undefined */
+  ammo: AmmoState | undefined;
+}
+
+export interface WTAProblem {
+  request: PlanRequest;
+  /** 参与规划的平台（存活且有弹药） */
+  platforms: PlatformState[];
+  /** 武器槽位，每个平台最多maxTargets个；矩阵的行按槽位排列 */
+  slots: WeaponSlot[];
+  /** 参与规划的目标（存活） */
+  targets: TargetState[];
+  /** 目标价值（求解使用，含valueBias） */
+  values: number[];
+  /** valueBias[j]: values中只用于引导求解的加成（如压制防空），不计入报告的适应度 */
+  valueBias: number[];
+  /** killProb[i][j]: 槽位i攻击目标j的毁伤概率，0表示不可行 */
+  killProb: number[][];
+  /** munitions[i][j]: 槽位i攻击目标j使用的弹药，不可行时为null */
+  munitions: (MunitionChoice | null)[][];
+  /** cost[i][j]: 槽位i攻击目标j的代价（求解使用，含costBias） */
+  cost: number[][];
+  /** costBias[i][j]: cost中只用于引导求解的部分（如方案稳定性），不计入报告的适应度 */
+  costBias: number[][];
+  /** prerequisites[j]: 目标j仍存活的前置目标下标 */
+  prerequisites: number[][];
+  /** 是否存在前置约束 */
+  hasPrecedence: boolean;
+  /** speeds[k]: 平台k的巡航速度（米/秒），0表示未知，不估计到达时间 */
+  speeds: number[];
+  /** suppressFirst[j]: 目标j是防空威胁，同一依赖深度内先于其他目标攻击 */
+  suppressFirst: boolean[];
+  /** 因燃油或损伤规则被排除或受限的平台说明 */
+  readiness: PlatformReadiness[];
+  /** fixed[i]: 运营人员指定槽位i必须攻击的目标下标，-1表示由求解器决定；所有求解器都不得改动 */
+  fixed: Assignment;
+}
+
+/** assignment[i] = 槽位i分配的目标下标，-1表示不分配 */
+export type Assignment = number[];
+
+export interface SolveResult {
+  assignment: Assignment;
+  fitness: number;
+  iterations: number;
+  /** 是否已证明最优（仅精确求解器） */
+  provenOptimal?: boolean;
+  /** 搜索节点数（仅精确求解器） */
+  nodesExplored?: number;
+  /** 实际产生方案的求解器（组合求解器内部选择时填写） */
+  solver?: string;
+  /** 降级原因：首选求解器失败、方案来自后备求解器时填写 */
+  degraded?: string;
+}
+
+/** 求解过程中报告迄今最优的可行解（用于截止时间到达时返回） */
+export type ProgressCallback = (best: SolveResult) => void;
+
+/** 求解控制：报告进度，并在截止时间到达或任务取消时提前结束、返回迄今最优解 */
+export interface SolveControl {
+  onProgress?: ProgressCallback;
+  shouldStop?: () => boolean;
+  /** 取消信号，供主线程型求解器放弃进行中的I/O */
+  signal?: AbortSignal;
+  /** 运行后备求解器（线程池在剩余的截止时间内运行），未提供时由求解器在当前线程直接调用 */
+  solveFallback?: (solver: string) => Promise<SolveResult>;
+}
+
+/** 两次进度报告的最小间隔（毫秒） */
+export const PROGRESS_INTERVAL_MS = 50;
+
+export const UNASSIGNED = -1;
+
+export function distance(a: { x: number; y: number } | undefined, b: { x: number; y: number } | undefined): number {
+  const pa = a || { x: 0, y: 0 };
+  const pb = b || { x: 0, y: 0 };
+  return Math.sqrt(Math.pow(pa.x - pb.x, 2) + Math.pow(pa.y - pb.y, 2));
+}
+
+/** 平台剩余弹药总数；未上报弹药时视为一次齐射所需数量 */
+export function roundsAvailable(platform: PlatformState): number {
+  if (!platform.ammo) return Math.max(1, platform.quantity);
+  return platform.ammo.missile + platform.ammo.bomb + platform.ammo.rocket;
+}
+
+/** 平台每次交战的弹药/平台代价（不含威胁、航程等之后计入的代价） */
+export function engagementCost(platform: PlatformState): number {
+  return Math.max(platform.cost, 0);
+}
+
+/**
+ * 单次交战的弹药选择
+ * 超出射程或目标类型不符时返回null
+ */
+function engagementMunition(
+  platform: PlatformState,
+  slot: WeaponSlot,
+  target: TargetState,
+  options: MunitionOptions,
+  adjust?: ShotProbAdjuster
+): MunitionChoice | null {
+  if (platform.maxRange > 0 && distance(platform.pos, target.pos) > platform.maxRange) return null;
+  if (platform.targetTypes.length > 0 && !platform.targetTypes.includes(target.kind)) return null;
+  return chooseMunition(platform, slot.ammo, target, options, adjust);
+}
+
+/**
+ * 从规划请求构建问题
+ * @param adjust 单发毁伤概率修正（如观测学习的估计），缺省使用上报的hitProb
+ */
+export function buildProblem(request: PlanRequest, munitionOptions: MunitionOptions, adjust?: ShotProbAdjuster): WTAProblem {
+  const platforms = request.platforms.filter(p =>
+    p.alive && p.maxTargets > 0 && roundsAvailable(p) > 0
+  );
+  const targets = request.targets.filter(t => t.alive && t.value > 0);
+
+  // 已摧毁或未上报的前置目标视为满足
+  const indexById = new Map(targets.map((t, j) => [t.id, j]));
+  const prerequisites = targets.map(t =>
+    (t.prerequisiteTargets || [])
+      .map(id => indexById.get(id))
+      .filter((j): j is number => j !== undefined)
+  );
+  // 价值为0的存活目标不参与规划，以其为前置的目标无法解锁，不可攻击
+  const unplanned = new Set(request.targets.filter(t => t.alive && t.value <= 0).map(t => t.id));
+  const blocked = targets.map(t => (t.prerequisiteTargets || []).some(id => unplanned.has(id)));
+
+  // 每个平台按齐射拆分为若干武器槽位，平台弹药在槽位间划分，槽位之间互不冲突
+  const slots: WeaponSlot[] = [];
+  platforms.forEach((p, i) => {
+    splitSalvos(p).forEach(ammo => slots.push({ platform: i, ammo }));
+  });
+
+  const munitions = slots.map(slot =>
+    targets.map((t, j) => (blocked[j] ? null : engagementMunition(platforms[slot.platform], slot, t, munitionOptions, adjust)))
+  );
+
+  return {
+    request,
+    platforms,
+    slots,
+    targets,
+    values: targets.map(t => t.value),
+    valueBias: targets.map(() => 0),
+    killProb: munitions.map(row => row.map(choice => choice?.killProb ?? 0)),
+    munitions,
+    cost: slots.map(slot => targets.map(() => engagementCost(platforms[slot.platform]))),
+    costBias: slots.map(() => targets.map(() => 0)),
+    prerequisites,
+    hasPrecedence: prerequisites.some(list => list.length > 0),
+    suppressFirst: targets.map(() => false),
+    speeds: platforms.map(() => 0),
+    readiness: [],
+    fixed: slots.map(() => UNASSIGNED)
+  };
+}
+
+export function emptyAssignment(problem: WTAProblem): Assignment {
+  return problem.slots.map(() => UNASSIGNED);
+}
+
+/** 各目标的剩余存活概率 */
+export function survivalProbs(problem: WTAProblem, assignment: Assignment): number[] {
+  const survival = problem.targets.map(() => 1);
+  assignment.forEach((j, i) => {
+    if (j !== UNASSIGNED) survival[j] *= 1 - problem.killProb[i][j];
+  });
+  return survival;
+}
+
+/**
+ * 适应度 = 期望摧毁价值 - 交战代价
+ * 即 Σ_j V_j (1 - Π_i (1 - p_ij)) - Σ c_ij
+ */
+export function evaluate(problem: WTAProblem, assignment: Assignment): number {
+  const survival = survivalProbs(problem, assignment);
+  let fitness = 0;
+  survival.forEach((s, j) => {
+    fitness += problem.values[j] * (1 - s);
+  });
+  assignment.forEach((j, i) => {
+    if (j !== UNASSIGNED) fitness -= problem.cost[i][j];
+  });
+  return fitness;
+}
+
+/** 报告的适应度（PlanResponse.bestFitness等）：不含只用于引导求解的加成和偏置 */
+export function reportedFitness(problem: WTAProblem, assignment: Assignment): number {
+  let bias = 0;
+  survivalProbs(problem, assignment).forEach((s, j) => {
+    bias -= problem.valueBias[j] * (1 - s);
+  });
+  assignment.forEach((j, i) => {
+    if (j !== UNASSIGNED) bias += problem.costBias[i][j];
+  });
+  return evaluate(problem, assignment) + bias;
+}
@@ -0,0 +1,50 @@
+import { expect, test } from 'vitest';
+import { MagazineDetail } from '../../proto/generated/wta_messages';
+import { config } from '../config';
+import { chooseMunition, classifyMagazine } from './munitions';
+import { platform, target } from './fixtures';
+
+test('classifies common Arma magazines with the default patterns', () => {
+  const cases: [string, string | null][] = [
+    ['PylonMissile_1Rnd_LG_scalpel', 'missile'],
+    ['6Rnd_LG_scalpel', 'missile'],
+    ['PylonRack_1Rnd_Missile_AGM_02_F', 'missile'],
+    ['2Rnd_GBU12_LGB', 'bomb'],
+    ['PylonMissile_1Rnd_Bomb_04_F', 'bomb'],
+    ['PylonRack_12Rnd_PG_missiles', 'rocket'],
+    ['24Rnd_missiles', 'rocket'],
+    ['PylonRack_7Rnd_Rocket_04_HE_F', 'rocket'],
+    ['12Rnd_PG_missiles', 'rocket'],
+    ['missiles_DAGR', 'rocket'],
+    ['30Rnd_65x39_caseless_mag', null]
+  ];
+  cases.forEach(([name, expected]) => expect(classifyMagazine(name, config.munitions), name).toBe(expected));
+});
+
+test('rocket and bomb patterns take precedence over the generic missile pattern', () => {
+  const options = {
+    ...config.munitions,
+    magazinePatterns: { missile: ['missile'], bomb: ['bomb'], rocket: ['pg_missiles'] }
+  };
+  expect(classifyMagazine('12Rnd_PG_Missiles', options)).toBe('rocket');
+  expect(classifyMagazine('Missile_Bomb_Carrier', options)).toBe('bomb');
+  expect(classifyMagazine('1Rnd_Missile', options)).toBe('missile');
+});
+
+test('chooses the most effective munition class with ammo left', () => {
+  const magazine = (name: string, ammoCount: number, loaded: boolean) =>
+    MagazineDetail.fromPartial({ name, ammoCount, loaded });
+  const armed = platform(1, {
+    quantity: 2,
+    ammo: { missile: 0, bomb: 3, rocket: 12 },
+    magazines: [magazine('2Rnd_GBU12_LGB', 2, false), magazine('PylonRack_Bomb_GBU12_x2', 1, true)]
+  });
+
+  // 装甲目标：导弹已打光，炸弹效能高于火箭
+  const choice = chooseMunition(armed, armed.ammo, target(10), config.munitions);
+  expect(choice).toMatchObject({ munition: 'bomb', magazine: 'PylonRack_Bomb_GBU12_x2', rounds: 2 });
+  expect(choice?.killProb).toBeCloseTo(1 - Math.pow(1 - 0.8 * 0.8, 2));
+
+  const empty = platform(2, { ammo: { missile: 0, bomb: 0, rocket: 0 } });
+  expect(chooseMunition(empty, empty.ammo, target(10), config.munitions)).toBeNull();
+});
@@ -0,0 +1,127 @@
+/**
+ * 弹药选择
+ * 按AmmoState中的弹药类别（missile/bomb/rocket）和可配置的效能表，
+ * 为每个平台-目标对选出毁伤概率最高的弹药，并从MagazineDetail中匹配对应弹夹
+ */
+import { PlatformState, TargetState, AmmoState } from '../../proto/generated/wta_messages';
+
+export const MUNITION_CLASSES = ['missile', 'bomb', 'rocket'] as const;
+export type MunitionClass = typeof MUNITION_CLASSES[number];
+
+// 类名匹配顺序：Arma的火箭弹类名常含"missiles"（如missiles_DAGR、12Rnd_PG_missiles），
+// 通用的missile关键字最后匹配
+const CLASSIFY_ORDER: MunitionClass[] = ['rocket', 'bomb', 'missile'];
+
+export interface MunitionOptions {
+  /** effectiveness[类别][TargetKind]: 命中概率系数，缺省为1 */
+  effectiveness: Record<MunitionClass, number[]>;
+  /** 弹夹类名关键字（不区分大小写），用于判断弹夹所属类别 */
+  magazinePatterns: Record<MunitionClass, string[]>;
+}
+
+export interface MunitionChoice {
+  /** 弹药类别，平台未上报弹药时为空字符串 */
+  munition: MunitionClass | '';
+  /** 匹配的弹夹类名，可能为空 */
+  magazine: string;
+  /** 一次交战发射数量 */
+  rounds: number;
+  /** 单次交战毁伤概率 */
+  killProb: number;
+}
+
+/**
+ * 单发毁伤概率修正：输入平台上报值（hitProb × 效能系数），返回规划使用的概率
+ * 用于以观测学习的估计代替上报值
+ */
+export type ShotProbAdjuster = (
+  platform: PlatformState,
+  munition: MunitionClass | '',
+  target: TargetState,
+  declared: number
+) => number;
+
+/** 按类名判断弹夹或武器的类别（火箭、炸弹、导弹依次匹配），无法识别时返回null */
+export function classifyMagazine(name: string, options: MunitionOptions): MunitionClass | null {
+  const lower = name.toLowerCase();
+  for (const munition of CLASSIFY_ORDER) {
+    if (options.magazinePatterns[munition].some(pattern => lower.includes(pattern.toLowerCase()))) {
+      return munition;
+    }
+  }
+  return null;
+}
+
+/** 该类别中剩余弹药最多的弹夹，优先已装载的 */
+function pickMagazine(platform: PlatformState, munition: MunitionClass, options: MunitionOptions): string {
+  const candidates = (platform.magazines || []).filter(m =>
+    m.ammoCount > 0 && classifyMagazine(m.name, options) === munition
+  );
+  candidates.sort((a, b) => Number(b.loaded) - Number(a.loaded) || b.ammoCount - a.ammoCount);
+  return candidates[0]?.name ?? '';
+}
+
+function salvoKillProb(hitProb: number, rounds: number): number {
+  const p = Math.min(Math.max(hitProb, 0), 1);
+  return 1 - Math.pow(1 - p, rounds);
+}
+
+/**
+ * 将平台弹药按齐射拆分到至多maxTargets个武器槽位
+ * 各类别按quantity切成齐射后轮流分给槽位；未上报弹药时每个槽位的弹药为undefined
+ */
+export function splitSalvos(platform: PlatformState): (AmmoState | undefined)[] {
+  const capacity = Math.max(0, platform.maxTargets);
+  if (!platform.ammo) return Array.from({ length: capacity }, () => undefined);
+
+  const salvo = Math.max(1, platform.quantity);
+  const chunks: { munition: MunitionClass; rounds: number }[] = [];
+  for (const munition of MUNITION_CLASSES) {
+    for (let left = platform.ammo[munition]; left > 0; left -= salvo) {
+      chunks.push({ munition, rounds: Math.min(salvo, left) });
+    }
+  }
+
+  const count = Math.min(capacity, chunks.length);
+  const slots: AmmoState[] = Array.from({ length: count }, () => ({ missile: 0, bomb: 0, rocket: 0 }));
+  chunks.forEach((chunk, k) => {
+    slots[k % count][chunk.munition] += chunk.rounds;
+  });
+  return slots;
+}
+
+/**
+ * 选择武器槽位攻击目标时使用的弹药
+ * quantity视为一次交战的齐射发数，受槽位内该类别弹药限制；没有可用弹药时返回null
+ */
+export function chooseMunition(
+  platform: PlatformState,
+  ammo: AmmoState | undefined,
+  target: TargetState,
+  options: MunitionOptions,
+  adjust?: ShotProbAdjuster
+): MunitionChoice | null {
+  const salvo = Math.max(1, platform.quantity);
+  const shotProb = (munition: MunitionClass | '', declared: number) =>
+    adjust ? adjust(platform, munition, target, declared) : declared;
+
+  // 未上报弹药的平台按整体处理
+  if (!ammo) {
+    return { munition: '', magazine: '', rounds: salvo, killProb: salvoKillProb(shotProb('', platform.hitProb), salvo) };
+  }
+
+  let best: MunitionChoice | null = null;
+  for (const munition of MUNITION_CLASSES) {
+    const available = ammo[munition];
+    if (available <= 0) continue;
+    const factor = options.effectiveness[munition]?.[target.kind] ?? 1;
+    if (factor <= 0) continue;
+
+    const rounds = Math.min(salvo, available);
+    const killProb = salvoKillProb(shotProb(munition, platform.hitProb * factor), rounds);
+    if (!best || killProb > best.killProb) {
+      best = { munition, magazine: pickMagazine(platform, munition, options), rounds, killProb };
+    }
+  }
+  return best;
+}
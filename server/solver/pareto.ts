@@ -0,0 +1,89 @@
+/**
+ * 多目标规划：期望摧毁价值 vs 交战代价（弹药/平台代价）
+ * 以不同代价权重λ求解 Σ V_j(1-Π(1-p_ij)) - λ·Σ c_ij - 其他代价项（威胁、航程等不加权），
+ * 合并候选方案后保留非支配解
+ */
+import { WTAProblem, Assignment, SolveControl, UNASSIGNED, engagementCost, survivalProbs } from './model';
+import { AnnealOptions, solveAnneal } from './anneal';
+
+export interface ParetoOptions {
+  /** 代价权重λ列表 */
+  weights: number[];
+  /** 所有权重合计的时间预算（毫秒），各权重平分 */
+  timeBudgetMs: number;
+}
+
+export interface ParetoPoint {
+  /** 产生该方案的代价权重，外部提供的候选方案为null */
+  weight: number | null;
+  assignment: Assignment;
+  /** 期望摧毁价值 */
+  expectedValue: number;
+  /** 弹药/平台代价合计 */
+  cost: number;
+}
+
+/** 期望摧毁价值，不含求解引导加成 */
+export function expectedValue(problem: WTAProblem, assignment: Assignment): number {
+  return survivalProbs(problem, assignment)
+    .reduce((sum, s, j) => sum + (problem.values[j] - problem.valueBias[j]) * (1 - s), 0);
+}
+
+/** 弹药/平台代价合计，不含problem.cost中的威胁、航程和稳定性等项 */
+export function totalCost(problem: WTAProblem, assignment: Assignment): number {
+  return assignment.reduce((sum, j, i) => (j === UNASSIGNED ? sum : sum + slotCost(problem, i)), 0);
+}
+
+function slotCost(problem: WTAProblem, i: number): number {
+  return engagementCost(problem.platforms[problem.slots[i].platform]);
+}
+
+/**
+ * 计算帕累托前沿，按代价升序返回
+ * @param candidates 额外参与比较的方案（如主求解器的结果）
+ * @param control 提前结束时只使用已求解的权重
+ */
+export function paretoFront(
+  problem: WTAProblem,
+  options: ParetoOptions,
+  anneal: AnnealOptions,
+  candidates: Assignment[] = [],
+  control: SolveControl = {}
+): ParetoPoint[] {
+  const budget = options.weights.length > 0 ? options.timeBudgetMs / options.weights.length : 0;
+  const points: ParetoPoint[] = candidates.map(assignment => ({
+    weight: null,
+    assignment,
+    expectedValue: expectedValue(problem, assignment),
+    cost: totalCost(problem, assignment)
+  }));
+
+  for (const weight of options.weights) {
+    if (control.shouldStop?.()) break;
+    const scaled: WTAProblem = {
+      ...problem,
+      cost: problem.cost.map((row, i) => row.map(c => c + (weight - 1) * slotCost(problem, i)))
+    };
+    const deadline = performance.now() + budget;
+    const shouldStop = () => performance.now() > deadline || (control.shouldStop?.() ?? false);
+    const { assignment } = solveAnneal(scaled, anneal, { shouldStop });
+    points.push({
+      weight,
+      assignment,
+      expectedValue: expectedValue(problem, assignment),
+      cost: totalCost(problem, assignment)
+    });
+  }
+
+  // 去掉被支配的方案（价值不更低且代价不更高，且至少一项严格更优）以及重复方案
+  const eps = 1e-9;
+  const dominates = (a: ParetoPoint, b: ParetoPoint) =>
+    a.expectedValue >= b.expectedValue - eps && a.cost <= b.cost + eps &&
+    (a.expectedValue > b.expectedValue + eps || a.cost < b.cost - eps);
+  const front = points.filter((p, k) =>
+    !points.some(q => dominates(q, p)) &&
+    points.findIndex(q => q.assignment.every((j, i) => j === p.assignment[i])) === k
+  );
+
+  return front.sort((a, b) => a.cost - b.cost);
+}
@@ -0,0 +1,57 @@
+/**
+ * 方案输出
+ * 将槽位级分配转换为PlanResponse中的交战列表（含航线顺序与到达时间）、波次映射和兼容旧版插件的assignment映射
+ */
+import { Engagement } from '../../proto/generated/wta_messages';
+import { WTAProblem, Assignment, UNASSIGNED } from './model';
+import { computeWaves } from './sequencing';
+import { explainAssignment } from './explain';
+import { assignRoutes } from './routing';
+
+/**
+ * 交战列表：每个已分配槽位一条，附带决策解释，按波次和平台排序
+ * 不可行的分配（如外部求解器给出）同样输出，弹药为空，交由方案校验报告
+ */
+export function toEngagements(problem: WTAProblem, assignment: Assignment): Engagement[] {
+  const waves = computeWaves(problem, assignment);
+  const explanations = explainAssignment(problem, assignment);
+  const engagements: Engagement[] = [];
+  assignment.forEach((j, i) => {
+    if (j === UNASSIGNED) return;
+    const choice = problem.munitions[i][j];
+    engagements.push({
+      platformId: problem.platforms[problem.slots[i].platform].id,
+      targetId: problem.targets[j].id,
+      munition: choice?.munition ?? '',
+      magazine: choice?.magazine ?? '',
+      rounds: choice?.rounds ?? 0,
+      wave: waves[i],
+      explanation: explanations[i],
+      routeOrder: 0,
+      eta: -1
+    });
+  });
+  assignRoutes(problem, engagements);
+  return engagements.sort((a, b) => a.wave - b.wave || a.platformId - b.platformId);
+}
+
+/**
+ * 旧版 platform_id -> target_id 映射
+ * 平台有多个交战时取最早波次的一个，旧版插件按此顺序执行仍满足前置约束
+ */
+export function toAssignmentMap(engagements: Engagement[]): { [key: number]: number } {
+  const map: { [key: number]: number } = {};
+  engagements.forEach(e => {
+    if (map[e.platformId] === undefined) map[e.platformId] = e.targetId;
+  });
+  return map;
+}
+
+/** platform_id -> 波次映射（取该平台最早的波次，与assignment映射对应） */
+export function toWaveMap(engagements: Engagement[]): { [key: number]: number } {
+  const map: { [key: number]: number } = {};
+  engagements.forEach(e => {
+    if (map[e.platformId] === undefined) map[e.platformId] = e.wave;
+  });
+  return map;
+}
@@ -0,0 +1,44 @@
+import { expect, test } from 'vitest';
+import { solveWithDeadline } from './pool';
+import { Solver } from './registry';
+import { platform, problemOf, target } from './fixtures';
+
+const problem = () => problemOf([platform(1)], [target(10)]);
+
+// 在取消前一直不返回的主线程型求解器
+const hanging: Solver = {
+  name: 'hanging',
+  description: 'never replies',
+  inline: true,
+  solve: (_, control) => new Promise((_resolve, reject) => {
+    control?.signal?.addEventListener('abort', () => reject(new Error('cancelled')));
+  })
+};
+
+test('inline solvers are cancelled at the deadline and replaced by the greedy plan', async () => {
+  const startTime = performance.now();
+  const result = await solveWithDeadline(problem(), hanging, 50);
+  expect(performance.now() - startTime).toBeLessThan(1000);
+  expect(result.solver).toBe('greedy');
+  expect(result.degraded).toMatch(/exceeded the 50ms deadline/);
+  expect(result.assignment.some(j => j >= 0)).toBe(true);
+});
+
+test('inline solvers run their fallback through the pool within the remaining deadline', async () => {
+  const failing: Solver = {
+    name: 'failing',
+    description: 'falls back at once',
+    inline: true,
+    solve: async (_, control) => ({ ...(await control!.solveFallback!('greedy')), degraded: 'failed' })
+  };
+  const result = await solveWithDeadline(problem(), failing, 1000);
+  expect(result.degraded).toBe('failed');
+  expect(result.fitness).toBeGreaterThan(0);
+});
+
+test('cancelling the request cancels an inline solver', async () => {
+  const controller = new AbortController();
+  const pending = solveWithDeadline(problem(), hanging, 10000, controller.signal);
+  controller.abort();
+  await expect(pending).rejects.toThrow('cancelled');
+});
@@ -0,0 +1,299 @@
+/**
+ * 求解线程池
+ * 在worker_threads中运行求解，ZeroMQ循环和WebSocket推送不被计算阻塞；
+ * 每个任务可设截止时间并可取消：通过共享停止标志让求解器提前返回，线程保持可用；
+ * 求解器不响应时才终止线程并补充新线程
+ */
+import { Worker } from 'worker_threads';
+import { join } from 'path';
+import { logger } from '../logger';
+import { WTAProblem, SolveResult, Assignment, ProgressCallback } from './model';
+import { AnnealOptions } from './anneal';
+import { ParetoOptions, ParetoPoint, paretoFront } from './pareto';
+import { Solver, getSolver } from './registry';
+import { solveGreedy } from './greedy';
+
+export interface PoolOptions {
+  /** 工作线程数，0表示在主线程求解 */
+  workers: number;
+  /** 单次规划的截止时间（毫秒） */
+  deadlineMs: number;
+}
+
+export type PoolJob =
+  | { kind: 'solve'; solver: string; problem: WTAProblem }
+  | { kind: 'pareto'; problem: WTAProblem; options: ParetoOptions; anneal: AnnealOptions; candidates: Assignment[] };
+
+export interface WorkerRequest {
+  id: number;
+  job: PoolJob;
+  /** Int32Array停止标志的底层缓冲 */
+  stop: SharedArrayBuffer;
+}
+
+export type WorkerMessage =
+  | { id: number; type: 'progress'; result: SolveResult }
+  | { id: number; type: 'done'; result: SolveResult | ParetoPoint[] }
+  | { id: number; type: 'error'; message: string };
+
+interface PendingJob {
+  id: number;
+  job: PoolJob;
+  /** 与工作线程共享的停止标志，置1后求解器在下一次检查时返回迄今最优解 */
+  stop: Int32Array;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: PendingJob | null;
+}
+
+/** 提交后的任务：stop()要求尽快结束，结果仍通过result返回 */
+interface RunningJob<T> {
+  result: Promise<T>;
+  stop: () => void;
+}
+
+// 直接以TypeScript源码运行时（tsx），工作线程需要单独注册转译钩子
+const WORKER_FILE = join(__dirname, __filename.endsWith('.ts') ? 'worker.ts' : 'worker.js');
+const WORKER_EXEC_ARGV = __filename.endsWith('.ts') ? ['--require', require.resolve('tsx/cjs')] : [];
+
+// 要求停止后等待求解器返回的时间，超时则终止线程
+const STOP_GRACE_MS = 200;
+
+const workers: PoolWorker[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+let running = false;
+
+function spawnWorker(): PoolWorker {
+  const entry: PoolWorker = {
+    worker: new Worker(WORKER_FILE, { execArgv: WORKER_EXEC_ARGV }),
+    current: null
+  };
+
+  entry.worker.on('message', (message: WorkerMessage) => {
+    const job = entry.current;
+    if (!job || job.id !== message.id) return;
+    if (message.type === 'progress') {
+      job.onProgress?.(message.result);
+      return;
+    }
+    entry.current = null;
+    if (message.type === 'done') {
+      job.resolve(message.result);
+    } else {
+      job.reject(new Error(message.message));
+    }
+    dispatch();
+  });
+
+  // 线程异常退出时让当前任务失败，并补充新线程
+  entry.worker.on('error', (error) => {
+    logger.error('[Pool]', 'Solver worker crashed', error);
+  });
+  entry.worker.on('exit', (code) => {
+    const index = workers.indexOf(entry);
+    if (index < 0) return;
+    workers.splice(index, 1);
+    entry.current?.reject(new Error(`solver worker exited (code=${code})`));
+    entry.current = null;
+    if (running) {
+      workers.push(spawnWorker());
+      dispatch();
+    }
+  });
+
+  return entry;
+}
+
+// 将排队任务派发给空闲线程
+function dispatch() {
+  for (const entry of workers) {
+    if (queue.length === 0) return;
+    if (entry.current) continue;
+    const job = queue.shift()!;
+    entry.current = job;
+    entry.worker.postMessage({ id: job.id, job: job.job, stop: job.stop.buffer as SharedArrayBuffer } satisfies WorkerRequest);
+  }
+}
+
+// 求解器未在宽限时间内响应停止时，终止其线程并替换为新线程
+function terminateRunning(job: PendingJob) {
+  const entry = workers.find(w => w.current === job);
+  if (!entry) return;
+  logger.warn('[Pool]', `Solver worker did not stop within ${STOP_GRACE_MS}ms, terminating`);
+  workers.splice(workers.indexOf(entry), 1);
+  entry.current = null;
+  void entry.worker.terminate();
+  job.reject(new Error('solver worker terminated'));
+  workers.push(spawnWorker());
+  dispatch();
+}
+
+function submit<T>(job: PoolJob, onProgress?: ProgressCallback): RunningJob<T> {
+  let pending!: PendingJob;
+  let graceTimer: NodeJS.Timeout | undefined;
+
+  const result = new Promise<T>((resolve, reject) => {
+    pending = {
+      id: nextJobId++,
+      job,
+      stop: new Int32Array(new SharedArrayBuffer(4)),
+      resolve: (value) => {
+        clearTimeout(graceTimer);
+        resolve(value as T);
+      },
+      reject: (error) => {
+        clearTimeout(graceTimer);
+        reject(error);
+      },
+      onProgress
+    };
+    queue.push(pending);
+    dispatch();
+  });
+
+  const stop = () => {
+    const index = queue.indexOf(pending);
+    if (index >= 0) {
+      queue.splice(index, 1);
+      pending.reject(new Error('cancelled'));
+      return;
+    }
+    if (Atomics.exchange(pending.stop, 0, 1) === 1) return;
+    graceTimer = setTimeout(() => terminateRunning(pending), STOP_GRACE_MS);
+  };
+
+  return { result, stop };
+}
+
+export function startSolverPool(options: PoolOptions) {
+  if (running || options.workers <= 0) return;
+  running = true;
+  for (let k = 0; k < options.workers; k++) workers.push(spawnWorker());
+  logger.info('[Pool]', `Started ${options.workers} solver worker(s), deadline ${options.deadlineMs}ms`);
+}
+
+export function stopSolverPool() {
+  running = false;
+  queue.splice(0).forEach(job => job.reject(new Error('solver pool stopped')));
+  workers.splice(0).forEach(entry => {
+    entry.current?.reject(new Error('solver pool stopped'));
+    void entry.worker.terminate();
+  });
+}
+
+/**
+ * 在线程池中求解，截止时间到达时要求求解器停止并返回迄今最优解（没有时返回贪心解），标记为降级
+ * 线程池未启动时直接调用求解器，主线程型求解器见solveInline；signal取消时抛出异常
+ */
+export async function solveWithDeadline(
+  problem: WTAProblem,
+  solver: Solver,
+  deadlineMs: number,
+  signal?: AbortSignal
+): Promise<SolveResult> {
+  if (signal?.aborted) throw new Error('cancelled');
+  if (solver.inline) return solveInline(problem, solver, deadlineMs, signal);
+  if (!running) return solver.solve(problem, { signal });
+
+  let best: SolveResult | null = null;
+  let timedOut = false;
+  const job = submit<SolveResult>({ kind: 'solve', solver: solver.name, problem }, result => {
+    best = result;
+  });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    job.stop();
+  }, deadlineMs);
+  signal?.addEventListener('abort', job.stop, { once: true });
+
+  let result: SolveResult | null = null;
+  try {
+    result = await job.result;
+  } catch (error) {
+    if (!timedOut || signal?.aborted) throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', job.stop);
+  }
+  if (signal?.aborted) throw new Error('cancelled');
+  if (!timedOut) return result!;
+
+  const fallback: SolveResult = result ?? best ?? { ...solveGreedy(problem), solver: 'greedy' };
+  const source = result || best ? 'best solution found so far' : 'greedy solution';
+  logger.warn('[Pool]', `Solver ${solver.name} missed the ${deadlineMs}ms deadline, returning ${source}`);
+  return {
+    ...fallback,
+    degraded: `Solver ${solver.name} exceeded the ${deadlineMs}ms deadline; ${source} returned`
+  };
+}
+
+/**
+ * 在主线程运行I/O型求解器，同样受截止时间约束：到达时取消进行中的I/O，返回贪心解并标记为降级；
+ * 求解器失败后的后备求解器通过线程池运行，使用剩余的截止时间
+ */
+async function solveInline(
+  problem: WTAProblem,
+  solver: Solver,
+  deadlineMs: number,
+  signal?: AbortSignal
+): Promise<SolveResult> {
+  const startTime = performance.now();
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, deadlineMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const solveFallback = (name: string) => {
+    // 后备求解器自带截止时间，不再由这里的计时器取消
+    clearTimeout(timer);
+    const remainingMs = Math.max(0, deadlineMs - (performance.now() - startTime));
+    return solveWithDeadline(problem, getSolver(name) ?? getSolver('greedy')!, remainingMs, signal);
+  };
+
+  try {
+    return await solver.solve(problem, { signal: controller.signal, solveFallback });
+  } catch (error) {
+    if (!timedOut || signal?.aborted) throw error;
+    logger.warn('[Pool]', `Solver ${solver.name} missed the ${deadlineMs}ms deadline, returning greedy solution`);
+    return {
+      ...solveGreedy(problem),
+      solver: 'greedy',
+      degraded: `Solver ${solver.name} exceeded the ${deadlineMs}ms deadline; greedy solution returned`
+    };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/** 在线程池中计算帕累托前沿，可通过signal取消；线程池未启动时在主线程计算 */
+export async function paretoInPool(
+  problem: WTAProblem,
+  options: ParetoOptions,
+  anneal: AnnealOptions,
+  candidates: Assignment[],
+  signal?: AbortSignal
+): Promise<ParetoPoint[]> {
+  if (!running) return paretoFront(problem, options, anneal, candidates);
+  if (signal?.aborted) throw new Error('cancelled');
+
+  const job = submit<ParetoPoint[]>({ kind: 'pareto', problem, options, anneal, candidates });
+  signal?.addEventListener('abort', job.stop, { once: true });
+  try {
+    const front = await job.result;
+    if (signal?.aborted) throw new Error('cancelled');
+    return front;
+  } finally {
+    signal?.removeEventListener('abort', job.stop);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * 可复现的伪随机数生成器（mulberry32）
+ * 相同种子产生相同序列，用于元启发式求解器
+ */
+
+export type Random = () => number;
+
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** [0, n) 范围内的随机整数 */
+export function randomInt(random: Random, n: number): number {
+  return Math.floor(random() * n);
+}
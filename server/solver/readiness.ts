@@ -0,0 +1,155 @@
+/**
+ * 平台战备状态：燃油与损伤规则
+ * 按platformType配置规则：燃油低于bingo的平台返航、不参与规划；
+ * 其余平台只攻击燃油足够往返（从当前位置出发并返回）的目标；
+ * 损伤达到上限的平台不参与规划，重度损伤的平台降低命中概率
+ */
+import { PlatformReadiness, PlatformState } from '../../proto/generated/wta_messages';
+import { WTAProblem, distance } from './model';
+
+export interface ReadinessRule {
+  /** bingo燃油比例：燃油低于该值时平台返航，不参与规划 */
+  bingoFuel: number;
+  /** 每千米航程消耗的燃油比例，0表示不按燃油限制目标 */
+  fuelPerKm: number;
+  /** 损伤达到该值时平台不参与规划 */
+  maxDamage: number;
+  /** 损伤达到该值时降低命中概率 */
+  heavyDamage: number;
+  /** 重度损伤时的命中概率系数 */
+  damageHitFactor: number;
+}
+
+export interface ReadinessOptions {
+  /** platformType -> 规则（可只覆盖部分字段），default为所有类型的默认规则 */
+  rules: Record<string, Partial<ReadinessRule>>;
+}
+
+const NO_RULE: ReadinessRule = {
+  bingoFuel: 0,
+  fuelPerKm: 0,
+  maxDamage: 1,
+  heavyDamage: 1,
+  damageHitFactor: 1
+};
+
+export function readinessRule(platform: PlatformState, options: ReadinessOptions): ReadinessRule {
+  return { ...NO_RULE, ...options.rules.default, ...options.rules[platform.platformType] };
+}
+
+/** 从当前位置往返目标所需的燃油 */
+function roundTripFuel(platform: PlatformState, pos: { x: number; y: number } | undefined, rule: ReadinessRule): number {
+  return (2 * distance(platform.pos, pos) / 1000) * rule.fuelPerKm;
+}
+
+/**
+ * 按规则评估平台，返回受影响平台的说明（不受影响的平台不列出）
+ * 燃油为0视为未上报，不应用燃油规则
+ */
+export function assessReadiness(
+  platforms: PlatformState[],
+  targets: { id: number; pos?: { x: number; y: number } }[],
+  options: ReadinessOptions
+): PlatformReadiness[] {
+  const notes: PlatformReadiness[] = [];
+  const note = (platform: PlatformState, fields: Partial<PlatformReadiness>) => notes.push({
+    platformId: platform.id,
+    rule: '',
+    excluded: false,
+    detail: '',
+    unreachableTargets: [],
+    hitFactor: 1,
+    ...fields
+  });
+
+  platforms.filter(p => p.alive).forEach(platform => {
+    const rule = readinessRule(platform, options);
+    const fuel = platform.fuel;
+    const damage = platform.damage;
+
+    if (damage >= rule.maxDamage) {
+      note(platform, {
+        rule: 'damage_limit',
+        excluded: true,
+        detail: `damage ${(damage * 100).toFixed(0)}% >= limit ${(rule.maxDamage * 100).toFixed(0)}%`
+      });
+      return;
+    }
+    if (fuel > 0 && fuel <= rule.bingoFuel) {
+      note(platform, {
+        rule: 'bingo_fuel',
+        excluded: true,
+        detail: `fuel ${(fuel * 100).toFixed(0)}% <= bingo ${(rule.bingoFuel * 100).toFixed(0)}%, returning to base`
+      });
+      return;
+    }
+
+    if (fuel > 0 && rule.fuelPerKm > 0) {
+      const usable = fuel - rule.bingoFuel;
+      const unreachable = targets
+        .filter(t => roundTripFuel(platform, t.pos, rule) > usable)
+        .map(t => t.id);
+      if (unreachable.length > 0) {
+        note(platform, {
+          rule: 'fuel_range',
+          detail: `fuel ${(fuel * 100).toFixed(0)}% allows ${(usable / rule.fuelPerKm / 2).toFixed(1)}km radius; ` +
+            `${unreachable.length} target(s) out of reach`,
+          unreachableTargets: unreachable
+        });
+      }
+    }
+
+    if (damage >= rule.heavyDamage && rule.damageHitFactor < 1) {
+      note(platform, {
+        rule: 'damage_penalty',
+        detail: `damage ${(damage * 100).toFixed(0)}% >= ${(rule.heavyDamage * 100).toFixed(0)}%, ` +
+          `hit probability x${rule.damageHitFactor}`,
+        hitFactor: Math.max(rule.damageHitFactor, 0)
+      });
+    }
+  });
+
+  return notes;
+}
+
+/** 按新的单发命中概率系数重算齐射毁伤概率 */
+function scaleKillProb(killProb: number, rounds: number, factor: number): number {
+  const n = Math.max(1, rounds);
+  const perRound = 1 - Math.pow(1 - killProb, 1 / n);
+  return 1 - Math.pow(1 - perRound * factor, n);
+}
+
+/**
+ * 将战备规则计入问题
+ * 被排除的平台所有槽位不可行；燃油不足的目标对该平台不可行；重度损伤的平台按系数降低毁伤概率
+ * 各平台的规则说明记入problem.readiness，随方案下发
+ */
+export function applyReadiness(problem: WTAProblem, options: ReadinessOptions) {
+  const notes = assessReadiness(problem.platforms, problem.targets, options);
+  problem.readiness = notes;
+
+  const platformIndex = new Map(problem.platforms.map((p, k) => [p.id, k]));
+  const targetIndex = new Map(problem.targets.map((t, j) => [t.id, j]));
+
+  notes.forEach(note => {
+    const k = platformIndex.get(note.platformId);
+    if (k === undefined) return;
+    const unreachable = new Set(note.unreachableTargets.map(id => targetIndex.get(id)));
+
+    problem.slots.forEach((slot, i) => {
+      if (slot.platform !== k) return;
+      problem.targets.forEach((_, j) => {
+        const choice = problem.munitions[i][j];
+        if (!choice) return;
+        if (note.excluded || unreachable.has(j)) {
+          problem.killProb[i][j] = 0;
+          problem.munitions[i][j] = null;
+        } else if (note.hitFactor < 1) {
+          const killProb = scaleKillProb(choice.killProb, choice.rounds, note.hitFactor);
+          problem.killProb[i][j] = killProb;
+          problem.munitions[i][j] = { ...choice, killProb };
+        }
+      });
+    });
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * 求解器注册表
+ * 按名称注册求解器，并根据配置和PlanRequest.reason选择本次使用的求解器
+ */
+import { config } from '../config';
+import { logger } from '../logger';
+import { WTAProblem, SolveResult, SolveControl } from './model';
+import { solveGreedy } from './greedy';
+import { solveExact } from './exact';
+import { solveAnneal } from './anneal';
+import { solveExternal } from './external';
+
+export interface Solver {
+  /** 注册名称 */
+  name: string;
+  /** 简要说明 */
+  description: string;
+  /** 在主线程运行（I/O型求解器，不占用工作线程） */
+  inline?: boolean;
+  /** control用于报告迄今最优解和提前结束（线程池的截止时间与取消） */
+  solve(problem: WTAProblem, control?: SolveControl): Promise<SolveResult>;
+}
+
+const solvers = new Map<string, Solver>();
+
+export function registerSolver(solver: Solver) {
+  solvers.set(solver.name, solver);
+}
+
+export function getSolver(name: string): Solver | undefined {
+  return solvers.get(name);
+}
+
+export function listSolvers(): Solver[] {
+  return Array.from(solvers.values());
+}
+
+/** 规模是否在精确求解上限内 */
+function withinExactLimits(problem: WTAProblem): boolean {
+  return problem.platforms.length <= config.exact.maxPlatforms &&
+    problem.slots.length <= config.exact.maxSlots &&
+    problem.targets.length <= config.exact.maxTargets;
+}
+
+// ==================== 内置求解器 ====================
+
+registerSolver({
+  name: 'greedy',
+  description: 'Greedy marginal return',
+  solve: async (problem) => solveGreedy(problem)
+});
+
+registerSolver({
+  name: 'exact',
+  description: 'Branch and bound, greedy fallback above size limit',
+  solve: async (problem, control) => {
+    if (!withinExactLimits(problem)) {
+      return { ...solveGreedy(problem), solver: 'greedy' };
+    }
+    return solveExact(problem, config.exact, control);
+  }
+});
+
+registerSolver({
+  name: 'anneal',
+  description: 'Seeded simulated annealing',
+  solve: async (problem, control) => solveAnneal(problem, config.anneal, control)
+});
+
+registerSolver({
+  name: 'auto',
+  description: 'Exact when small, otherwise simulated annealing',
+  solve: async (problem, control) => {
+    if (withinExactLimits(problem)) {
+      return { ...solveExact(problem, config.exact, control), solver: 'exact' };
+    }
+    return { ...solveAnneal(problem, config.anneal, control), solver: 'anneal' };
+  }
+});
+
+registerSolver({
+  name: 'external',
+  description: 'External solver process, built-in fallback on failure',
+  inline: true,
+  solve: async (problem, control) => {
+    try {
+      return await solveExternal(problem, config.external, control?.signal);
+    } catch (error) {
+      if (control?.signal?.aborted) throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      const fallbackName = config.external.fallback === 'external' ? 'greedy' : config.external.fallback;
+      const fallback = getSolver(fallbackName) ?? getSolver('greedy')!;
+      logger.warn('[External]', `External solver failed, falling back to ${fallback.name}`, reason);
+      const result = control?.solveFallback
+        ? await control.solveFallback(fallback.name)
+        : await fallback.solve(problem);
+      return {
+        ...result,
+        solver: result.solver ?? fallback.name,
+        degraded: `External solver failed: ${reason}`
+      };
+    }
+  }
+});
+
+/**
+ * 按请求原因选择求解器
+ * 优先使用该原因的专用配置，未配置或名称无效时使用默认求解器
+ */
+export function selectSolver(reason: string): Solver {
+  const byReason = config.solvers.byReason[reason as keyof typeof config.solvers.byReason];
+  return getSolver(byReason || '') ?? getSolver(config.solvers.default) ?? getSolver('greedy')!;
+}
+
+/** 检查配置中引用的求解器是否都已注册 */
+export function unknownConfiguredSolvers(): string[] {
+  const names = [config.solvers.default, ...Object.values(config.solvers.byReason), ...config.shadow.solvers]
+    .filter(n => n !== '');
+  return names.filter(name => !solvers.has(name));
+}
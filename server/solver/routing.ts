@@ -0,0 +1,89 @@
+/**
+ * 航线与到达时间
+ * 按platformType查巡航速度；平台依次飞抵所攻击的目标，
+ * 先按波次、同一波次内按最近邻排列航线，到达时间 = 累计航程 / 速度
+ */
+import { Engagement, PlatformState } from '../../proto/generated/wta_messages';
+import { WTAProblem, distance } from './model';
+
+export interface RoutingOptions {
+  /** platformType -> 巡航速度（米/秒），default为未列出类型的速度 */
+  speeds: Record<string, number>;
+  /** 每秒飞行时间折算的代价 */
+  timeCost: number;
+}
+
+export function speedOf(platform: PlatformState, options: RoutingOptions): number {
+  const speed = options.speeds[platform.platformType] ?? options.speeds.default ?? 0;
+  return Math.max(speed, 0);
+}
+
+/**
+ * 将飞行时间计入问题
+ * 记录各平台速度，槽位攻击目标的代价增加 直飞时间 × timeCost
+ */
+export function applyTravelTime(problem: WTAProblem, options: RoutingOptions) {
+  problem.speeds = problem.platforms.map(p => speedOf(p, options));
+  if (options.timeCost <= 0) return;
+
+  problem.slots.forEach((slot, i) => {
+    const platform = problem.platforms[slot.platform];
+    const speed = problem.speeds[slot.platform];
+    if (speed <= 0) return;
+    problem.targets.forEach((target, j) => {
+      problem.cost[i][j] += options.timeCost * distance(platform.pos, target.pos) / speed;
+    });
+  });
+}
+
+/**
+ * 填写交战的航线顺序和到达时间
+ * 同一平台对同一目标的多次交战共用一个航点；速度未知时到达时间为-1
+ */
+export function assignRoutes(problem: WTAProblem, engagements: Engagement[]) {
+  const platformIndex = new Map(problem.platforms.map((p, i) => [p.id, i]));
+  const targetById = new Map(problem.targets.map(t => [t.id, t]));
+
+  const byPlatform = new Map<number, Engagement[]>();
+  engagements.forEach(e => {
+    byPlatform.set(e.platformId, [...(byPlatform.get(e.platformId) ?? []), e]);
+  });
+
+  byPlatform.forEach((list, platformId) => {
+    const i = platformIndex.get(platformId);
+    if (i === undefined) return;
+    const speed = problem.speeds[i];
+
+    // 航点：每个目标一个，取其最早波次
+    const waveOf = new Map<number, number>();
+    list.forEach(e => waveOf.set(e.targetId, Math.min(waveOf.get(e.targetId) ?? Infinity, e.wave)));
+    const remaining = Array.from(waveOf.keys());
+
+    let pos = problem.platforms[i].pos || { x: 0, y: 0 };
+    let travelled = 0;
+    const stops = new Map<number, { order: number; eta: number }>();
+    while (remaining.length > 0) {
+      const wave = Math.min(...remaining.map(id => waveOf.get(id)!));
+      let best = -1;
+      let bestDistance = Infinity;
+      remaining.forEach((id, k) => {
+        if (waveOf.get(id) !== wave) return;
+        const d = distance(pos, targetById.get(id)?.pos);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = k;
+        }
+      });
+      const [targetId] = remaining.splice(best, 1);
+      travelled += bestDistance;
+      pos = targetById.get(targetId)?.pos || { x: 0, y: 0 };
+      stops.set(targetId, { order: stops.size, eta: speed > 0 ? travelled / speed : -1 });
+    }
+
+    list.forEach(e => {
+      const stop = stops.get(e.targetId)!;
+      e.routeOrder = stop.order;
+      e.eta = stop.eta;
+    });
+  });
+}
@@ -0,0 +1,20 @@
+import { expect, test } from 'vitest';
+import { checkPrerequisites } from './sequencing';
+import { platform, request, target } from './fixtures';
+
+test('prerequisite cycles between alive targets have no solution', () => {
+  const req = request([platform(1)], [target(10, { prerequisiteTargets: [11] }), target(11, { prerequisiteTargets: [10] })]);
+  expect(checkPrerequisites(req)).toMatch(/prerequisite cycle/);
+
+  const cleared = request([platform(1)], [
+    target(10, { prerequisiteTargets: [11] }),
+    target(11, { alive: false, prerequisiteTargets: [10] })
+  ]);
+  expect(checkPrerequisites(cleared)).toBeNull();
+});
+
+test('unreported prerequisites are met only when the target was seen before', () => {
+  const req = request([platform(1)], [target(10, { prerequisiteTargets: [11] })]);
+  expect(checkPrerequisites(req)).toMatch(/unknown prerequisite\(s\) 11/);
+  expect(checkPrerequisites(req, new Set([11]))).toBeNull();
+});
@@ -0,0 +1,116 @@
+/**
+ * 时序约束
+ * 目标只有在其前置目标已摧毁、或在更早波次中被分配时才能攻击；
+ * 同一依赖深度内先压制防空威胁，再按tier从低到高排列波次
+ */
+import { PlanRequest } from '../../proto/generated/wta_messages';
+import { WTAProblem, Assignment, UNASSIGNED } from './model';
+
+/**
+ * 检查前置约束是否可满足
+ * Arma不再上报已摧毁的目标：请求中不存在、但曾经出现过的前置目标视为已满足，从未出现过的视为引用错误
+ * @param seenTargets 之前的上报或击毁事件中出现过的目标ID
+ * @returns 错误描述；约束可满足时返回null
+ */
+export function checkPrerequisites(request: PlanRequest, seenTargets: ReadonlySet<number> = new Set()): string | null {
+  const byId = new Map(request.targets.map(t => [t.id, t]));
+  const errors: string[] = [];
+
+  // 引用了从未出现过的目标
+  for (const target of request.targets) {
+    if (!target.alive) continue;
+    const missing = (target.prerequisiteTargets || []).filter(id => !byId.has(id) && !seenTargets.has(id));
+    if (missing.length > 0) {
+      errors.push(`target ${target.id} references unknown prerequisite(s) ${missing.join(', ')}`);
+    }
+  }
+
+  // 存活目标之间的循环依赖（已摧毁或未上报的目标不再构成约束）
+  const state = new Map<number, 'visiting' | 'done'>();
+  const reported = new Set<number>();
+  const visit = (id: number, path: number[]) => {
+    const status = state.get(id);
+    if (status === 'done') return;
+    if (status === 'visiting') {
+      const cycle = path.slice(path.indexOf(id));
+      if (!cycle.some(c => reported.has(c))) {
+        cycle.forEach(c => reported.add(c));
+        errors.push(`prerequisite cycle ${[...cycle, id].join(' -> ')}`);
+      }
+      return;
+    }
+    state.set(id, 'visiting');
+    const target = byId.get(id);
+    for (const prereq of target?.prerequisiteTargets || []) {
+      const next = byId.get(prereq);
+      if (next && next.alive) visit(prereq, [...path, id]);
+    }
+    state.set(id, 'done');
+  };
+  request.targets.filter(t => t.alive).forEach(t => visit(t.id, []));
+
+  return errors.length > 0 ? errors.join('; ') : null;
+}
+
+/** 目标j是否已解锁：所有存活前置目标都已分配 */
+export function isUnlocked(problem: WTAProblem, j: number, assignedCount: number[]): boolean {
+  return problem.prerequisites[j].every(k => assignedCount[k] > 0);
+}
+
+/**
+ * 修复分配：反复撤销前置目标未被分配的攻击，直到满足约束
+ * 运营人员固定的槽位不撤销（其前置约束由方案校验报告）
+ */
+export function repair(problem: WTAProblem, assignment: Assignment): Assignment {
+  if (!problem.hasPrecedence) return assignment;
+
+  const result = assignment.slice();
+  const assignedCount = problem.targets.map(() => 0);
+  result.forEach(j => {
+    if (j !== UNASSIGNED) assignedCount[j]++;
+  });
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < result.length; i++) {
+      const j = result[i];
+      if (j === UNASSIGNED || problem.fixed[i] !== UNASSIGNED || isUnlocked(problem, j, assignedCount)) continue;
+      result[i] = UNASSIGNED;
+      assignedCount[j]--;
+      changed = true;
+    }
+  }
+  return result;
+}
+
+/**
+ * 计算各槽位的攻击波次（未分配为-1）
+ * 波次键 = (前置依赖深度, 是否防空压制, tier)，压缩为从0开始的连续整数
+ */
+export function computeWaves(problem: WTAProblem, assignment: Assignment): number[] {
+  const depth = new Map<number, number>();
+  const depthOf = (j: number): number => {
+    const cached = depth.get(j);
+    if (cached !== undefined) return cached;
+    depth.set(j, 0);  // 约束已通过checkPrerequisites校验，此处不会成环
+    const d = problem.prerequisites[j].reduce((max, k) => Math.max(max, depthOf(k) + 1), 0);
+    depth.set(j, d);
+    return d;
+  };
+
+  const assignedTargets = Array.from(new Set(assignment.filter(j => j !== UNASSIGNED)));
+  const keys = assignedTargets
+    .map(j => ({ j, depth: depthOf(j), suppress: problem.suppressFirst[j] ? 0 : 1, tier: problem.targets[j].tier }))
+    .sort((a, b) => a.depth - b.depth || a.suppress - b.suppress || a.tier - b.tier);
+
+  const waveOf = new Map<number, number>();
+  let wave = -1;
+  keys.forEach((key, k) => {
+    const prev = keys[k - 1];
+    if (!prev || prev.depth !== key.depth || prev.suppress !== key.suppress || prev.tier !== key.tier) wave++;
+    waveOf.set(key.j, wave);
+  });
+
+  return assignment.map(j => (j === UNASSIGNED ? -1 : waveOf.get(j)!));
+}
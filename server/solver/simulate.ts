@@ -0,0 +1,126 @@
+/**
+ * 交战结果蒙特卡洛仿真
+ * 按交战的毁伤概率（由hitProb和弹药效能得出）逐次抽样：同一波次的交战同时发射，
+ * 波次之间观察结果，目标已被摧毁时后续波次不再对其开火（不消耗弹药）
+ */
+import { PlanRequest, Engagement } from '../../proto/generated/wta_messages';
+import { createRandom } from './random';
+
+export interface SimulationOptions {
+  /** 仿真次数，0表示不仿真 */
+  trials: number;
+  /** 随机种子，相同方案得到相同结果 */
+  seed: number;
+}
+
+export interface TargetOutcome {
+  targetId: number;
+  /** 被摧毁的概率 */
+  killProb: number;
+}
+
+export interface ValueDistribution {
+  mean: number;
+  std: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  /** 摧毁价值的直方图：histogram[k]为落在第k个区间（[0, 存活目标总价值]等分）的比例 */
+  histogram: number[];
+}
+
+export interface SimulationResult {
+  trials: number;
+  /** 方案攻击的各目标，按被摧毁概率升序 */
+  targets: TargetOutcome[];
+  /** 摧毁价值分布 */
+  value: ValueDistribution;
+  /** 各弹药类别的期望消耗（未上报弹药的平台记为"unspecified"） */
+  expectedRounds: Record<string, number>;
+  /** 各弹药类别的计划消耗（全部交战都发射时） */
+  plannedRounds: Record<string, number>;
+}
+
+const HISTOGRAM_BINS = 10;
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+export function simulatePlan(
+  request: PlanRequest,
+  engagements: Engagement[],
+  options: SimulationOptions
+): SimulationResult | null {
+  const fired = engagements.filter(e => e.rounds > 0 && (e.explanation?.killProb ?? 0) > 0);
+  if (options.trials <= 0 || fired.length === 0) return null;
+
+  const targetById = new Map(request.targets.filter(t => t.alive).map(t => [t.id, t]));
+  const targetIds = Array.from(new Set(fired.map(e => e.targetId))).filter(id => targetById.has(id));
+  const totalValue = Array.from(targetById.values()).reduce((sum, t) => sum + t.value, 0);
+  const waves = Array.from(new Set(fired.map(e => e.wave))).sort((a, b) => a - b)
+    .map(wave => fired.filter(e => e.wave === wave && targetById.has(e.targetId)));
+  const munitionOf = (e: Engagement) => e.munition || 'unspecified';
+
+  const random = createRandom(options.seed);
+  const kills = new Map(targetIds.map(id => [id, 0]));
+  const rounds: Record<string, number> = {};
+  const plannedRounds: Record<string, number> = {};
+  fired.forEach(e => {
+    plannedRounds[munitionOf(e)] = (plannedRounds[munitionOf(e)] ?? 0) + e.rounds;
+  });
+  const values: number[] = [];
+
+  for (let trial = 0; trial < options.trials; trial++) {
+    const destroyed = new Set<number>();
+    for (const wave of waves) {
+      const hits: number[] = [];
+      for (const e of wave) {
+        if (destroyed.has(e.targetId)) continue;
+        rounds[munitionOf(e)] = (rounds[munitionOf(e)] ?? 0) + e.rounds;
+        if (random() < e.explanation!.killProb) hits.push(e.targetId);
+      }
+      hits.forEach(id => destroyed.add(id));
+    }
+
+    let value = 0;
+    destroyed.forEach(id => {
+      kills.set(id, kills.get(id)! + 1);
+      value += targetById.get(id)!.value;
+    });
+    values.push(value);
+  }
+
+  const n = options.trials;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n);
+  const counts = new Array(HISTOGRAM_BINS).fill(0);
+  values.forEach(v => {
+    const bin = totalValue > 0 ? Math.min(HISTOGRAM_BINS - 1, Math.floor((v / totalValue) * HISTOGRAM_BINS)) : 0;
+    counts[bin]++;
+  });
+  values.sort((a, b) => a - b);
+
+  const expectedRounds: Record<string, number> = {};
+  Object.entries(rounds).forEach(([munition, total]) => {
+    expectedRounds[munition] = total / n;
+  });
+
+  return {
+    trials: n,
+    targets: targetIds
+      .map(targetId => ({ targetId, killProb: kills.get(targetId)! / n }))
+      .sort((a, b) => a.killProb - b.killProb),
+    value: {
+      mean,
+      std,
+      p5: quantile(values, 0.05),
+      p50: quantile(values, 0.5),
+      p95: quantile(values, 0.95),
+      histogram: counts.map(c => c / n)
+    },
+    expectedRounds,
+    plannedRounds
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * 方案稳定性
+ * 重规划时让平台继续上一方案中的交战，只有收益足够大时才改派或放弃，
+ * 避免方案刷新时平台在目标之间来回切换
+ */
+import { PlanRequest, Engagement } from '../../proto/generated/wta_messages';
+import { WTAProblem } from './model';
+
+/** platform_id -> 攻击的target_id集合 */
+function targetsByPlatform(engagements: Engagement[]): Map<number, Set<number>> {
+  const map = new Map<number, Set<number>>();
+  engagements.forEach(e => {
+    if (!map.has(e.platformId)) map.set(e.platformId, new Set());
+    map.get(e.platformId)!.add(e.targetId);
+  });
+  return map;
+}
+
+/**
+ * 施加换目标惩罚
+ * 上一方案的每条交战，若目标仍存活且平台仍可攻击，该平台一个槽位（对该目标毁伤概率最高的）
+ * 继续攻击该目标时代价减少penalty，改攻其他目标或放弃交战都相对多付penalty；
+ * 目标已摧毁或不再可行时改派是被迫的，不受惩罚。惩罚记入costBias，不计入报告的适应度
+ */
+export function applySwitchPenalty(problem: WTAProblem, previous: Engagement[], penalty: number) {
+  if (penalty <= 0 || previous.length === 0) return;
+
+  const platformIndex = new Map(problem.platforms.map((p, k) => [p.id, k]));
+  const targetIndex = new Map(problem.targets.map((t, j) => [t.id, j]));
+  const used = new Set<number>();
+  previous.forEach(e => {
+    const k = platformIndex.get(e.platformId);
+    const j = targetIndex.get(e.targetId);
+    if (k === undefined || j === undefined) return;
+    const slots = problem.slots
+      .map((_, i) => i)
+      .filter(i => problem.slots[i].platform === k && !used.has(i) && problem.killProb[i][j] > 0);
+    if (slots.length === 0) return;
+    const i = slots.reduce((best, s) => (problem.killProb[s][j] > problem.killProb[best][j] ? s : best));
+    used.add(i);
+    problem.cost[i][j] -= penalty;
+    problem.costBias[i][j] -= penalty;
+  });
+}
+
+/**
+ * 与上一方案相比交战目标集合发生变化的平台数
+ * 已不存活的平台不计入
+ */
+export function countChangedPlatforms(
+  request: PlanRequest,
+  previous: Engagement[],
+  current: Engagement[]
+): number {
+  const before = targetsByPlatform(previous);
+  const after = targetsByPlatform(current);
+  const alive = new Set(request.platforms.filter(p => p.alive).map(p => p.id));
+
+  let changed = 0;
+  new Set([...before.keys(), ...after.keys()]).forEach(id => {
+    if (!alive.has(id)) return;
+    const a = before.get(id) ?? new Set<number>();
+    const b = after.get(id) ?? new Set<number>();
+    if (a.size !== b.size || [...a].some(t => !b.has(t))) changed++;
+  });
+  return changed;
+}
@@ -0,0 +1,132 @@
+/**
+ * 防空威胁评估
+ * 存活的SAM（或指定了威胁范围的目标）对其范围内的平台构成威胁；
+ * 交战风险按平台飞往发射位置的航线计算：1 - Π(航线新进入的威胁范围的击毁概率)，按平台损失价值折算为该交战的代价，
+ * 同时将压制该SAM可避免的期望损失作为求解引导加成计入其目标价值（不计入报告的适应度）
+ */
+import { PlatformState, TargetState, TargetKind, Vec2 } from '../../proto/generated/wta_messages';
+import { WTAProblem, distance } from './model';
+
+export interface ThreatOptions {
+  /** SAM默认威胁半径（米） */
+  samRadius: number;
+  /** SAM默认击毁概率 */
+  samKillProb: number;
+  /** 平台损失价值 = cost × lossMultiplier，0表示不考虑威胁 */
+  lossMultiplier: number;
+}
+
+export interface ThreatZone {
+  targetId: number;
+  pos: { x: number; y: number };
+  radius: number;
+  killProb: number;
+}
+
+/** 目标的威胁范围；不构成威胁时返回null */
+export function threatZone(target: TargetState, options: ThreatOptions): ThreatZone | null {
+  if (!target.alive) return null;
+  const isSam = target.kind === TargetKind.TARGET_KIND_SAM;
+  const radius = target.threatRadius > 0 ? target.threatRadius : isSam ? options.samRadius : 0;
+  const killProb = target.threatKillProb > 0 ? target.threatKillProb : isSam ? options.samKillProb : 0;
+  if (radius <= 0 || killProb <= 0) return null;
+  return {
+    targetId: target.id,
+    pos: target.pos || { x: 0, y: 0 },
+    radius,
+    killProb: Math.min(killProb, 1)
+  };
+}
+
+export function threatZones(targets: TargetState[], options: ThreatOptions): ThreatZone[] {
+  return targets
+    .map(t => threatZone(t, options))
+    .filter((zone): zone is ThreatZone => zone !== null);
+}
+
+/** 威胁范围是否覆盖平台当前位置 */
+export function covers(zone: ThreatZone, platform: PlatformState): boolean {
+  return distance(platform.pos, zone.pos) <= zone.radius;
+}
+
+/** 平台在当前位置被击毁的概率 */
+export function platformRisk(platform: PlatformState, zones: ThreatZone[]): number {
+  const survival = zones.reduce((s, zone) => (covers(zone, platform) ? s * (1 - zone.killProb) : s), 1);
+  return 1 - survival;
+}
+
+/** 点p到线段ab的最短距离 */
+function segmentDistance(a: Vec2, b: Vec2, p: Vec2): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq, 0), 1) : 0;
+  return distance({ x: a.x + t * dx, y: a.y + t * dy }, p);
+}
+
+/** 发射位置：已在射程内（或射程不限）时为当前位置，否则为飞向目标途中进入射程的点 */
+export function launchPoint(platform: PlatformState, target: TargetState): Vec2 {
+  const from = platform.pos || { x: 0, y: 0 };
+  const to = target.pos || { x: 0, y: 0 };
+  const range = distance(from, to);
+  if (platform.maxRange <= 0 || range <= platform.maxRange) return from;
+  const t = (range - platform.maxRange) / range;
+  return { x: from.x + t * (to.x - from.x), y: from.y + t * (to.y - from.y) };
+}
+
+/**
+ * 平台攻击目标新增的风险：从当前位置飞到发射位置的航线进入的威胁范围的击毁概率；
+ * 已覆盖当前位置的威胁不论是否交战都存在，不计入
+ */
+export function engagementRisk(platform: PlatformState, target: TargetState, zones: ThreatZone[]): number {
+  const from = platform.pos || { x: 0, y: 0 };
+  const to = launchPoint(platform, target);
+  const survival = zones.reduce((s, zone) =>
+    (!covers(zone, platform) && segmentDistance(from, to, zone.pos) <= zone.radius ? s * (1 - zone.killProb) : s), 1);
+  return 1 - survival;
+}
+
+/** 平台损失价值 */
+export function lossValue(platform: PlatformState, options: ThreatOptions): number {
+  return Math.max(platform.cost, 0) * options.lossMultiplier;
+}
+
+/** 各平台的风险（平台ID -> 被击毁概率），仅包含存活平台 */
+export function assessPlatformRisk(platforms: PlatformState[], targets: TargetState[], options: ThreatOptions): Record<number, number> {
+  const zones = threatZones(targets, options);
+  const risk: Record<number, number> = {};
+  platforms.filter(p => p.alive).forEach(p => {
+    risk[p.id] = platformRisk(p, zones);
+  });
+  return risk;
+}
+
+/**
+ * 将威胁计入问题
+ * 槽位攻击目标的代价增加 损失价值 × 该交战航线的风险，平台因此避开防空区内或需穿越防空区的目标；
+ * 威胁目标的价值加上其范围内各平台的期望损失（压制后可避免，记入valueBias），并在同一波次层级中优先攻击
+ */
+export function applyThreatRisk(problem: WTAProblem, options: ThreatOptions) {
+  if (options.lossMultiplier <= 0) return;
+
+  const zones = threatZones(problem.targets, options);
+  if (zones.length === 0) return;
+
+  const riskCost = problem.platforms.map(p =>
+    problem.targets.map(t => lossValue(p, options) * engagementRisk(p, t, zones))
+  );
+  problem.slots.forEach((slot, i) => {
+    problem.cost[i] = problem.cost[i].map((c, j) => c + riskCost[slot.platform][j]);
+  });
+
+  const indexById = new Map(problem.targets.map((t, j) => [t.id, j]));
+  zones.forEach(zone => {
+    const j = indexById.get(zone.targetId)!;
+    const bonus = problem.platforms
+      .filter(p => covers(zone, p))
+      .reduce((sum, p) => sum + lossValue(p, options) * zone.killProb, 0);
+    problem.values[j] += bonus;
+    problem.valueBias[j] += bonus;
+    problem.suppressFirst[j] = true;
+  });
+}
@@ -0,0 +1,80 @@
+import { expect, test } from 'vitest';
+import { Engagement, PlanRequest, PlatformReadiness } from '../../proto/generated/wta_messages';
+import { remainingEngagements, validatePlan } from './validator';
+import { ConstraintStatus } from './constraints';
+import { engagement, platform, request, target } from './fixtures';
+
+const rules = (req: PlanRequest, engagements: Engagement[]) =>
+  validatePlan(req, engagements).violations.map(v => v.rule);
+const armed = { ammo: { missile: 2, bomb: 0, rocket: 0 } };
+
+test('valid plan has no violations and full coverage', () => {
+  const result = validatePlan(request([platform(1, armed)], [target(10), target(11)]), [engagement(1, 10), engagement(1, 11)]);
+  expect(result.isValid).toBe(true);
+  expect(result.coverageRate).toBe(1);
+});
+
+test('reports unknown and dead platforms and targets', () => {
+  const req = request([platform(1, { ...armed, alive: false })], [target(10, { alive: false })]);
+  expect(rules(req, [engagement(1, 10), engagement(2, 11)]).sort())
+    .toEqual(['platform_dead', 'target_dead', 'unknown_platform', 'unknown_target']);
+});
+
+test('reports range, target type and maxTargets violations', () => {
+  const req = request(
+    [platform(1, { ...armed, maxRange: 500, maxTargets: 1, targetTypes: [1] })],
+    [target(10), target(11, { kind: 1, pos: { x: 100, y: 0 } })]
+  );
+  const violations = validatePlan(req, [engagement(1, 10), engagement(1, 11)]).violations;
+  expect(violations.filter(v => v.targetId === 10).map(v => v.rule).sort())
+    .toEqual(['max_targets', 'out_of_range', 'target_type']);
+  expect(violations.filter(v => v.targetId === 11).map(v => v.rule)).toEqual(['max_targets']);
+});
+
+test('reports ammo shortfalls as no_ammo', () => {
+  const req = request([platform(1, { ammo: { missile: 1, bomb: 0, rocket: 0 } })], [target(10), target(11)]);
+  expect(rules(req, [engagement(1, 10), engagement(1, 11)])).toEqual(['no_ammo', 'no_ammo']);
+});
+
+test('rounds already fired are not counted again against the remaining ammo', () => {
+  // 2枚导弹、2条交战，打出1枚后战场状态只剩1枚
+  const req = request([platform(1, { ammo: { missile: 1, bomb: 0, rocket: 0 } })], [target(10), target(11)]);
+  const plan = [engagement(1, 10), engagement(1, 11)];
+  expect(rules(req, plan)).toEqual(['no_ammo', 'no_ammo']);
+
+  const remaining = remainingEngagements(plan, new Map([['1->10', 1]]));
+  expect(remaining.map(e => e.targetId)).toEqual([11]);
+  expect(rules(req, remaining)).toEqual([]);
+});
+
+test('prerequisites must be destroyed or engaged in an earlier wave', () => {
+  const req = request([platform(1, armed), platform(2, armed)], [target(10), target(11, { prerequisiteTargets: [10] })]);
+  expect(rules(req, [engagement(1, 11)])).toEqual(['prerequisite']);
+  expect(rules(req, [engagement(1, 10, 0), engagement(2, 11, 0)])).toEqual(['prerequisite']);
+  expect(rules(req, [engagement(1, 10, 0), engagement(2, 11, 1)])).toEqual([]);
+
+  const cleared = request([platform(1, armed)], [target(10, { alive: false }), target(11, { prerequisiteTargets: [10] })]);
+  expect(rules(cleared, [engagement(1, 11)])).toEqual([]);
+});
+
+test('checks readiness exclusions and unreachable targets', () => {
+  const req = request([platform(1, armed), platform(2, armed)], [target(10)]);
+  const readiness = [
+    PlatformReadiness.fromPartial({ platformId: 1, excluded: true, rule: 'bingo_fuel', detail: 'fuel 0.10' }),
+    PlatformReadiness.fromPartial({ platformId: 2, rule: 'fuel_range', unreachableTargets: [10] })
+  ];
+  const violations = validatePlan(req, [engagement(1, 10), engagement(2, 10)], readiness).violations;
+  expect(violations.map(v => [v.platformId, v.rule])).toEqual([[1, 'readiness'], [2, 'readiness']]);
+});
+
+test('checks active operator constraints only', () => {
+  const req = request([platform(1, armed), platform(2, armed)], [target(10), target(11)]);
+  const constraints: ConstraintStatus[] = [
+    { id: 1, kind: 'forbid', platformId: 1, targetId: 10, state: 'active', reason: '' },
+    { id: 2, kind: 'pin', platformId: 2, targetId: 11, state: 'active', reason: '' },
+    { id: 3, kind: 'pin', platformId: 2, targetId: 10, state: 'unsatisfiable', reason: '' }
+  ];
+  const violations = validatePlan(req, [engagement(1, 10)], [], constraints).violations;
+  expect(violations.map(v => [v.platformId, v.targetId, v.rule]))
+    .toEqual([[1, 10, 'forbidden'], [2, 11, 'pinned']]);
+});
@@ -0,0 +1,179 @@
+/**
+ * 方案校验
+ * 不依赖求解器内部状态，直接按PlanRequest逐条检查交战列表，
+ * 外部求解器或后备求解器产生的方案同样适用
+ */
+import { PlanRequest, Engagement, PlatformReadiness } from '../../proto/generated/wta_messages';
+import { distance, roundsAvailable } from './model';
+import { MUNITION_CLASSES, MunitionClass } from './munitions';
+import { ConstraintStatus } from './constraints';
+
+export type ViolationRule =
+  | 'unknown_platform'
+  | 'platform_dead'
+  | 'unknown_target'
+  | 'target_dead'
+  | 'out_of_range'
+  | 'target_type'
+  | 'no_ammo'
+  | 'max_targets'
+  | 'prerequisite'
+  | 'readiness'
+  | 'forbidden'
+  | 'pinned';
+
+export interface PlanViolation {
+  platformId: number;
+  targetId: number;
+  rule: ViolationRule;
+  message: string;
+}
+
+export interface PlanValidation {
+  /** 没有任何违规 */
+  isValid: boolean;
+  /** 被至少一个无违规交战覆盖的存活目标比例 */
+  coverageRate: number;
+  violations: PlanViolation[];
+}
+
+/**
+ * 校验交战列表
+ * 同一平台的多条交战合计检查弹药和maxTargets，前置目标须已摧毁或在更早波次被攻击；
+ * readiness给出时，被排除的平台和燃油不足以往返的目标也视为违规；
+ * constraints给出时，检查生效的运营人员约束（forbid的交战、pin缺少的交战）
+ */
+export function validatePlan(
+  request: PlanRequest,
+  engagements: Engagement[],
+  readiness: PlatformReadiness[] = [],
+  constraints: ConstraintStatus[] = []
+): PlanValidation {
+  const platforms = new Map(request.platforms.map(p => [p.id, p]));
+  const excluded = new Map(readiness.filter(r => r.excluded).map(r => [r.platformId, r]));
+  const unreachable = new Map(readiness.map(r => [r.platformId, new Set(r.unreachableTargets)]));
+  const active = constraints.filter(c => c.state === 'active');
+  const forbidden = new Set(active.filter(c => c.kind === 'forbid').map(c => `${c.platformId}->${c.targetId}`));
+  const targets = new Map(request.targets.map(t => [t.id, t]));
+
+  // 各目标被攻击的最早波次
+  const earliestWave = new Map<number, number>();
+  engagements.forEach(({ targetId, wave }) => {
+    earliestWave.set(targetId, Math.min(earliestWave.get(targetId) ?? Infinity, wave));
+  });
+
+  // 各平台攻击的目标集合与各弹药类别的发射总数
+  const platformTargets = new Map<number, Set<number>>();
+  const roundsFired = new Map<number, Record<MunitionClass, number>>();
+  engagements.forEach(({ platformId, targetId, munition, rounds }) => {
+    if (!platformTargets.has(platformId)) platformTargets.set(platformId, new Set());
+    platformTargets.get(platformId)!.add(targetId);
+    if (!roundsFired.has(platformId)) roundsFired.set(platformId, { missile: 0, bomb: 0, rocket: 0 });
+    if (MUNITION_CLASSES.includes(munition as MunitionClass)) {
+      roundsFired.get(platformId)![munition as MunitionClass] += rounds;
+    }
+  });
+
+  const violations: PlanViolation[] = [];
+  const covered = new Set<number>();
+
+  for (const { platformId, targetId, munition, wave } of engagements) {
+    const found: PlanViolation[] = [];
+    const add = (rule: ViolationRule, message: string) => found.push({ platformId, targetId, rule, message });
+    const platform = platforms.get(platformId);
+    const target = targets.get(targetId);
+
+    if (!platform) add('unknown_platform', `platform ${platformId} is not in the request`);
+    if (!target) add('unknown_target', `target ${targetId} is not in the request`);
+
+    if (platform) {
+      if (!platform.alive) add('platform_dead', `platform ${platformId} is not alive`);
+      if (roundsAvailable(platform) <= 0) add('no_ammo', `platform ${platformId} has no ammo left`);
+
+      // 所选弹药类别的剩余数量须覆盖该平台所有交战的发射总数
+      const fired = roundsFired.get(platformId)!;
+      if (platform.ammo && MUNITION_CLASSES.includes(munition as MunitionClass)) {
+        const available = platform.ammo[munition as MunitionClass];
+        const total = fired[munition as MunitionClass];
+        if (total > available) {
+          add('no_ammo', `platform ${platformId} has ${available} ${munition}(s), plan fires ${total}`);
+        }
+      }
+
+      const count = platformTargets.get(platformId)!.size;
+      if (count > platform.maxTargets) {
+        add('max_targets', `platform ${platformId} assigned ${count} target(s), maxTargets is ${platform.maxTargets}`);
+      }
+    }
+
+    if (target && !target.alive) add('target_dead', `target ${targetId} is already destroyed`);
+
+    if (platform && target) {
+      const range = distance(platform.pos, target.pos);
+      if (platform.maxRange > 0 && range > platform.maxRange) {
+        add('out_of_range', `target ${targetId} at ${range.toFixed(0)}m exceeds maxRange ${platform.maxRange.toFixed(0)}m`);
+      }
+      if (platform.targetTypes.length > 0 && !platform.targetTypes.includes(target.kind)) {
+        add('target_type', `platform ${platformId} cannot engage target kind ${target.kind}`);
+      }
+    }
+
+    const exclusion = excluded.get(platformId);
+    if (exclusion) {
+      add('readiness', `platform ${platformId} excluded by ${exclusion.rule}: ${exclusion.detail}`);
+    } else if (unreachable.get(platformId)?.has(targetId)) {
+      add('readiness', `platform ${platformId} lacks fuel to reach target ${targetId} and return`);
+    }
+    if (forbidden.has(`${platformId}->${targetId}`)) {
+      add('forbidden', `operator forbade platform ${platformId} from engaging target ${targetId}`);
+    }
+
+    // 前置目标须已摧毁（或不再上报），或在更早波次被攻击
+    if (target) {
+      for (const prereqId of target.prerequisiteTargets || []) {
+        const prereq = targets.get(prereqId);
+        if (!prereq || !prereq.alive) continue;
+        const prereqWave = earliestWave.get(prereqId);
+        if (prereqWave === undefined) {
+          add('prerequisite', `prerequisite target ${prereqId} is not destroyed or assigned`);
+        } else if (prereqWave >= wave) {
+          add('prerequisite', `prerequisite target ${prereqId} is not engaged before wave ${wave}`);
+        }
+      }
+    }
+
+    if (found.length === 0 && target?.alive) covered.add(targetId);
+    violations.push(...found);
+  }
+
+  // pin缺少对应交战时不对应任何一条交战，单独记录
+  active.filter(c => c.kind === 'pin').forEach(({ platformId, targetId }) => {
+    if (engagements.some(e => e.platformId === platformId && e.targetId === targetId)) return;
+    violations.push({ platformId, targetId, rule: 'pinned', message: `operator pinned platform ${platformId} to target ${targetId}, plan does not engage it` });
+  });
+
+  const aliveTargets = request.targets.filter(t => t.alive).length;
+  return {
+    isValid: violations.length === 0,
+    coverageRate: aliveTargets > 0 ? covered.size / aliveTargets : 0,
+    violations
+  };
+}
+
+/**
+ * 扣除已开火发数后仍待执行的交战
+ * 开火事件已从战场状态中扣除弹药，事件触发的校验只应检查方案剩余的部分，
+ * 否则已执行的交战会与剩余弹药重复计数（如2枚导弹、2条交战，打出1枚后两条都被判为no_ammo）
+ * @param shots `${platformId}->${targetId}` -> 方案计算后该平台对该目标的开火次数
+ */
+export function remainingEngagements(engagements: Engagement[], shots: Map<string, number>): Engagement[] {
+  const unmatched = new Map(shots);
+  const remaining: Engagement[] = [];
+  for (const engagement of engagements) {
+    const key = `${engagement.platformId}->${engagement.targetId}`;
+    const fired = Math.min(unmatched.get(key) ?? 0, engagement.rounds);
+    unmatched.set(key, (unmatched.get(key) ?? 0) - fired);
+    if (fired < engagement.rounds) remaining.push({ ...engagement, rounds: engagement.rounds - fired });
+  }
+  return remaining;
+}
@@ -0,0 +1,35 @@
+/**
+ * 求解工作线程
+ * 执行主线程派发的求解任务，求解过程中通过progress消息报告迄今最优解，
+ * 主线程置位停止标志后求解器在下一次检查时返回
+ */
+import { parentPort } from 'worker_threads';
+import { getSolver } from './registry';
+import { paretoFront } from './pareto';
+import type { WorkerMessage, WorkerRequest } from './pool';
+
+const port = parentPort!;
+
+function post(message: WorkerMessage) {
+  port.postMessage(message);
+}
+
+port.on('message', async ({ id, job, stop }: WorkerRequest) => {
+  const flag = new Int32Array(stop);
+  const shouldStop = () => Atomics.load(flag, 0) === 1;
+  try {
+    if (job.kind === 'solve') {
+      const solver = getSolver(job.solver);
+      if (!solver) throw new Error(`unknown solver "${job.solver}"`);
+      const result = await solver.solve(job.problem, {
+        onProgress: best => post({ id, type: 'progress', result: best }),
+        shouldStop
+      });
+      post({ id, type: 'done', result });
+    } else {
+      post({ id, type: 'done', result: paretoFront(job.problem, job.options, job.anneal, job.candidates, { shouldStop }) });
+    }
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,80 @@
+/**
+ * 战场状态更新
+ * 将击毁、伤害、开火事件即时应用到服务器保存的平台与目标状态
+ */
+import {
+  PlatformState,
+  TargetState,
+  EntityKilledEvent,
+  DamageEvent,
+  FiredEvent
+} from '../proto/generated/wta_messages';
+import { MUNITION_CLASSES, MunitionOptions, classifyMagazine } from './solver/munitions';
+
+export interface WorldState {
+  platforms: PlatformState[];
+  targets: TargetState[];
+}
+
+function findEntity(world: WorldState, entityType: string, entityId: number): PlatformState | TargetState | undefined {
+  if (entityType === 'platform') return world.platforms.find(p => p.id === entityId);
+  if (entityType === 'target') return world.targets.find(t => t.id === entityId);
+  return undefined;
+}
+
+/**
+ * 击毁事件：将实体标记为已摧毁
+ * @returns 状态是否发生变化
+ */
+export function applyEntityKilled(world: WorldState, event: EntityKilledEvent): boolean {
+  const entity = findEntity(world, event.entityType, event.entityId);
+  if (!entity || !entity.alive) return false;
+  entity.alive = false;
+  return true;
+}
+
+/**
+ * 伤害事件：damageAmount视为实体的累计损伤（0-1），达到1时视为摧毁
+ * 目标没有损伤字段，只处理摧毁
+ */
+export function applyDamage(world: WorldState, event: DamageEvent): boolean {
+  const entity = findEntity(world, event.entityType, event.entityId);
+  if (!entity || !entity.alive) return false;
+
+  const destroyed = event.damageAmount >= 1;
+  if (event.entityType === 'platform') {
+    const platform = entity as PlatformState;
+    const damage = Math.min(Math.max(platform.damage, event.damageAmount), 1);
+    if (damage === platform.damage && !destroyed) return false;
+    platform.damage = damage;
+  }
+  if (destroyed) entity.alive = false;
+  return true;
+}
+
+/**
+ * 开火事件：按武器名称判断弹药类别并扣除一发
+ * 无法识别类别时，若平台只剩一种弹药则扣除该类别；同名弹夹的剩余数量更新为ammoLeft
+ */
+export function applyFired(world: WorldState, event: FiredEvent, options: MunitionOptions): boolean {
+  const platform = world.platforms.find(p => p.id === event.platformId);
+  if (!platform) return false;
+
+  let changed = false;
+  if (platform.ammo) {
+    const ammo = platform.ammo;
+    const remaining = MUNITION_CLASSES.filter(m => ammo[m] > 0);
+    const munition = classifyMagazine(event.weapon, options) ?? (remaining.length === 1 ? remaining[0] : null);
+    if (munition && ammo[munition] > 0) {
+      ammo[munition]--;
+      changed = true;
+    }
+  }
+
+  const magazine = platform.magazines.find(m => m.name === event.weapon);
+  if (magazine && magazine.ammoCount !== event.ammoLeft) {
+    magazine.ammoCount = Math.max(0, event.ammoLeft);
+    changed = true;
+  }
+  return changed;
+}
@@ -10,82 +10,96 @@ import {
   StatusReportEvent,
   PlanRequest,
   PlanResponse,
+  PlanStats,
+  Engagement,
+  PlatformReadiness,
   PlatformState,
   TargetState,
   PlatformRole,
   TargetKind
 } from '../proto/generated/wta_messages';
+import { config } from './config';
+import { LogLevel, LOG_LEVEL, logger } from './logger';
+import { WTAProblem, SolveResult, Assignment, evaluate, reportedFitness } from './solver/model';
+import { listSolvers, selectSolver, unknownConfiguredSolvers } from './solver/registry';
+import { checkPrerequisites } from './solver/sequencing';
+import { toAssignmentMap, toEngagements, toWaveMap } from './solver/plan';
+import { countChangedPlatforms } from './solver/stability';
+import { SimulationResult, simulatePlan } from './solver/simulate';
+import { ThreatZone, assessPlatformRisk, threatZones } from './solver/threat';
+import { assessReadiness } from './solver/readiness';
+import { ConstraintKind, ConstraintStatus, OperatorConstraint, assessConstraints } from './solver/constraints';
+import { ClientCommand, CommandRecord, acknowledgeCommands, commandHistory, enqueueCommand, parseClientCommand, takeQueuedCommands } from './commands';
+import { IssuedPlan, issuedPlans, recordIssuedPlan, recordPlanAborted, recordPlanEntityKilled, recordPlanFired, refreshIssuedPlan } from './plans';
+import { HitProbEstimate, hitProbEstimates, loadOutcomeStats, recordShot, recordTargetKilled } from './outcomes';
+import { stopExternalSolver } from './solver/external';
+import { paretoInPool, solveWithDeadline, startSolverPool, stopSolverPool } from './solver/pool';
+import { runShadowSolvers } from './shadow';
+import { prepareProblem } from './problem';
+import { PlanViolation, ViolationRule, remainingEngagements, validatePlan } from './solver/validator';
+import { EditedPair, editAssignment } from './solver/edit';
+import { applyDamage, applyEntityKilled, applyFired } from './world';
 
-// ==================== 日志系统 ====================
-enum LogLevel {
-  DEBUG = 0,
-  INFO = 1,
-  WARN = 2,
-  ERROR = 3
-}
-
-// 从环境变量读取日志级别，默认为 INFO
-const LOG_LEVEL: LogLevel = (() => {
-  const level = process.env.LOG_LEVEL?.toUpperCase() || 'INFO';
-  return LogLevel[level as keyof typeof LogLevel] ?? LogLevel.INFO;
-})();
-
-// 颜色代码
-const colors = {
-  reset: '\x1b[0m',
-  dim: '\x1b[2m',
-  bright: '\x1b[1m',
-  red: '\x1b[31m',
-  yellow: '\x1b[33m',
-  green: '\x1b[32m',
-  blue: '\x1b[34m',
-  cyan: '\x1b[36m',
-  magenta: '\x1b[35m'
-};
+// 最近一次规划结果（前端展示用）
+interface StoredPlan {
+  timestamp: string;
+  reason: string;
+  status: string;
+  errorMsg: string;
+  degraded: boolean;
+  bestFitness: number;
+  assignment: { [key: number]: number };
+  waves: { [key: number]: number };
+  engagements: Engagement[];
+  stats: PlanStats | undefined;
+  violations: PlanViolation[];
+  readiness: PlatformReadiness[];
+  simulation: SimulationResult | null;
+}
 
-// 日志函数
-function log(level: LogLevel, prefix: string, message: string, data?: any) {
-  if (level < LOG_LEVEL) return;
-
-  const timestamp = new Date().toLocaleTimeString();
-  let colorCode = colors.reset;
-  let levelStr = '';
-
-  switch (level) {
-    case LogLevel.DEBUG:
-      colorCode = colors.cyan;
-      levelStr = '[DEBUG]';
-      break;
-    case LogLevel.INFO:
-      colorCode = colors.green;
-      levelStr = '[INFO]';
-      break;
-    case LogLevel.WARN:
-      colorCode = colors.yellow;
-      levelStr = '[WARN]';
-      break;
-    case LogLevel.ERROR:
-      colorCode = colors.red;
-      levelStr = '[ERROR]';
-      break;
-  }
+// 帕累托前沿上的候选方案
+interface StoredParetoPoint {
+  id: number;
+  /** 代价权重，主求解器的方案为null */
+  weight: number | null;
+  expectedValue: number;
+  cost: number;
+  engagements: Engagement[];
+}
 
-  const header = `${colorCode}${levelStr}${colors.reset} ${colors.dim}[${timestamp}]${colors.reset} ${prefix}`;
-  
-  if (data !== undefined) {
-    console.log(header, message, data);
-  } else {
-    console.log(header, message);
-  }
+// 方案审批决定：operator批准、edited修改后批准、auto超时自动批准、pareto从帕累托前沿选择、rejected拒绝
+type ApprovalDecision = 'approved' | 'edited' | 'auto' | 'pareto' | 'rejected';
+
+// 方案审批状态（审批模式）
+interface StoredApproval {
+  required: boolean;
+  /** 等待审批的方案，没有时为null */
+  pending: {
+    id: number;
+    timestamp: string;
+    reason: string;
+    /** 开始等待审批的时间（ms） */
+    since: number;
+    /** 自动批准的时间（ms），不自动批准时为null */
+    autoApproveAt: number | null;
+    engagements: Engagement[];
+    /** 最近一次修改后批准被拒绝的原因，没有时为空 */
+    editErrors: string[];
+  } | null;
+  /** 最近一次审批决定 */
+  last: { id: number; decision: ApprovalDecision; timestamp: string } | null;
+  /** 最近批准的方案是否已发给Arma */
+  delivered: boolean;
 }
 
-// 便捷函数
-const logger = {
-  debug: (prefix: string, message: string, data?: any) => log(LogLevel.DEBUG, prefix, message, data),
-  info: (prefix: string, message: string, data?: any) => log(LogLevel.INFO, prefix, message, data),
-  warn: (prefix: string, message: string, data?: any) => log(LogLevel.WARN, prefix, message, data),
-  error: (prefix: string, message: string, data?: any) => log(LogLevel.ERROR, prefix, message, data)
-};
+interface StoredParetoFront {
+  timestamp: string;
+  points: StoredParetoPoint[];
+  /** 当前生效的方案 */
+  activeId: number | null;
+  /** 运营人员选择的方案是否已发给Arma */
+  delivered: boolean;
+}
 
 // 存储数据用于前端展示
 interface StoredData {
@@ -93,6 +107,15 @@ interface StoredData {
   platforms: PlatformState[];
   targets: TargetState[];
   messageType: string;
+  plan: StoredPlan | null;
+  pareto: StoredParetoFront | null;
+  threats: ThreatZone[];                   // 当前防空威胁范围
+  platformRisk: Record<number, number>;    // platform_id -> 当前位置被击毁概率
+  hitProbs: HitProbEstimate[];             // 上报与观测的单发毁伤概率
+  constraints: ConstraintStatus[];         // 运营人员约束及其状态
+  approval: StoredApproval;
+  commands: CommandRecord[];               // 发给Arma的运营人员指令及确认状态
+  issuedPlans: IssuedPlan[];               // 已下发的方案及交战执行情况
 }
 
 // 全局数据存储
@@ -100,12 +123,605 @@ const latestData: StoredData = {
   timestamp: null,
   platforms: [],
   targets: [],
-  messageType: 'none'
+  messageType: 'none',
+  plan: null,
+  pareto: null,
+  threats: [],
+  platformRisk: {},
+  hitProbs: [],
+  constraints: [],
+  approval: { required: config.approval.required, pending: null, last: null, delivered: true },
+  commands: [],
+  issuedPlans: []
 };
 
+// 使当前方案失效、需要立即重规划的违规类型
+const REPLAN_RULES = new Set<ViolationRule>(['platform_dead', 'target_dead', 'no_ammo', 'readiness', 'forbidden']);
+
+// 上一次下发的交战列表（重规划时用于抑制改派），尚未下发过方案时为null
+let lastEngagements: Engagement[] | null = null;
+// 最近一次求解后各平台-目标对的开火次数（`${platformId}->${targetId}`），校验时从方案中扣除
+const shotsSincePlan = new Map<string, number>();
+// 曾在上报或击毁事件中出现过的目标ID：Arma不再上报已摧毁的目标，引用这些目标的前置约束视为已满足
+const seenTargetIds = new Set<number>();
+
+// 最近一次求解的问题与主方案，应答发出后据此计算帕累托前沿
+let lastSolved: { request: PlanRequest; problem: WTAProblem; assignment: Assignment; response: PlanResponse } | null = null;
+// 最近一次规划尚未运行影子求解器
+let shadowPending = false;
+let paretoStale = false;
+// 应答发出后在线程池中运行的后台任务（影子求解器、帕累托前沿），新的规划开始时取消
+let background: AbortController | null = null;
+// 进行中的主求解，服务器退出时取消（终止外部求解器的请求和工作线程中的求解）
+let planning: AbortController | null = null;
+
+// 帕累托前沿各方案的完整响应（按方案ID）
+const paretoPlans = new Map<number, PlanResponse>();
+// 前沿方案ID在各次计算之间不重复，前沿刷新期间到达的选择不会选中其他方案
+let nextParetoId = 1;
+
+// 运营人员选择或批准、等待随下一次应答发给Arma的方案
+let pendingPlan: { response: PlanResponse; reason: string } | null = null;
+
+// 审批模式下等待运营人员审批的方案
+interface AwaitingApproval {
+  id: number;
+  request: PlanRequest;
+  problem: WTAProblem;
+  response: PlanResponse;
+  /** 开始等待审批的时间（ms），被更新的方案取代时保留 */
+  since: number;
+}
+let awaitingApproval: AwaitingApproval | null = null;
+let nextApprovalId = 1;
+let autoApproveTimer: NodeJS.Timeout | null = null;
+// 最近批准的方案，等待审批期间重复发给Arma
+let approvedPlan: PlanResponse | null = null;
+
+// 运营人员约束（pin/forbid），服务器运行期间保留，对之后的所有规划生效
+let operatorConstraints: OperatorConstraint[] = [];
+let nextConstraintId = 1;
+// 最近一次规划时各约束的状态（含规划中才能发现的无法满足原因）
+let planConstraints: ConstraintStatus[] = [];
+
+// 方案有效期（秒），运营人员可通过set_plan_ttl指令修改
+let planTtlSec = config.planTtlSec;
+
 // WebSocket客户端集合
 const wsClients = new Set<WebSocket>();
 
+// 非规划消息的确认响应（不携带分配方案）
+function createAckResponse(status: string = 'ok', errorMsg: string = ''): PlanResponse {
+  return {
+    status,
+    timestamp: Date.now() / 1000,
+    bestFitness: 0,
+    assignment: {},
+    nPlatforms: 0,
+    nTargets: 0,
+    stats: PlanStats.fromPartial({ isValid: status === 'ok' }),
+    ttlSec: 0,
+    errorMsg,
+    waves: {},
+    degraded: false,
+    engagements: [],
+    readiness: [],
+    commands: []
+  };
+}
+
+// 求解规划请求并生成响应
+async function solvePlanRequest(request: PlanRequest): Promise<PlanResponse> {
+  const startTime = performance.now();
+
+  // 前置约束成环或引用缺失目标时无解
+  const precedenceError = checkPrerequisites(request, seenTargetIds);
+  if (precedenceError) {
+    logger.warn('[Solver]', 'Prerequisite constraints unsatisfiable', precedenceError);
+    return {
+      ...createAckResponse('no_solution', precedenceError),
+      nPlatforms: request.platforms.length,
+      nTargets: request.targets.length
+    };
+  }
+
+  const { problem, constraints } = prepareProblem(request, operatorConstraints, lastEngagements ?? []);
+  shotsSincePlan.clear();
+  planConstraints = constraints;
+  planConstraints.filter(c => c.state === 'unsatisfiable').forEach(c => {
+    logger.warn('[Constraint]', `Cannot honour ${c.kind} #${c.platformId} -> #${c.targetId}: ${c.reason}`);
+  });
+  const solver = selectSolver(request.reason);
+  cancelBackgroundJobs();
+  const controller = new AbortController();
+  planning = controller;
+  let result: SolveResult;
+  try {
+    result = await solveWithDeadline(problem, solver, config.pool.deadlineMs, controller.signal);
+  } finally {
+    if (planning === controller) planning = null;
+  }
+  if ((result.solver ?? solver.name) === 'exact' && !result.provenOptimal && !result.degraded) {
+    logger.warn('[Solver]', `Exact search exceeded ${config.exact.timeBudgetMs}ms budget, using best heuristic plan found`, {
+      nodes: result.nodesExplored
+    });
+  }
+  const response = createPlanResponse(problem, result, result.solver ?? solver.name,
+    (performance.now() - startTime) / 1000);
+  countChanges(request, response);
+
+  lastSolved = { request, problem, assignment: result.assignment, response };
+  paretoStale = true;
+  paretoPlans.clear();
+  shadowPending = config.shadow.solvers.length > 0;
+  return response;
+}
+
+/**
+ * 由求解结果生成规划响应
+ * isValid与coverageRate由validatePlanResponse统一填写，changedAssignments由countChanges填写
+ */
+function createPlanResponse(
+  problem: WTAProblem,
+  result: SolveResult,
+  solverName: string,
+  computationTime: number
+): PlanResponse {
+  const engagements = toEngagements(problem, result.assignment);
+
+  return {
+    status: 'ok',
+    timestamp: Date.now() / 1000,
+    bestFitness: reportedFitness(problem, result.assignment),
+    assignment: toAssignmentMap(engagements),
+    nPlatforms: problem.platforms.length,
+    nTargets: problem.targets.length,
+    stats: {
+      computationTime,
+      iterations: result.iterations,
+      isValid: false,
+      coverageRate: 0,
+      provenOptimal: result.provenOptimal ?? false,
+      nodesExplored: result.nodesExplored ?? 0,
+      solver: solverName,
+      changedAssignments: 0
+    },
+    ttlSec: planTtlSec,
+    errorMsg: result.degraded ?? '',
+    waves: toWaveMap(engagements),
+    degraded: result.degraded !== undefined,
+    engagements,
+    readiness: problem.readiness,
+    commands: []
+  };
+}
+
+// 统计与上一次下发的方案相比的改派数
+function countChanges(request: PlanRequest, response: PlanResponse) {
+  const changedAssignments = lastEngagements
+    ? countChangedPlatforms(request, lastEngagements, response.engagements)
+    : 0;
+  response.stats = { ...PlanStats.fromPartial(response.stats ?? {}), changedAssignments };
+}
+
+// 记为最新下发的方案，供下次重规划抑制改派
+function markIssued(response: PlanResponse) {
+  lastEngagements = response.engagements;
+}
+
+/**
+ * 校验即将发出的规划响应（无论由哪个求解器产生）
+ * 根据校验结果填写isValid和coverageRate，并记录供前端展示
+ */
+function validatePlanResponse(request: PlanRequest, response: PlanResponse, timestamp: string) {
+  const validation = validatePlan(request, response.engagements, response.readiness,
+    response.status === 'ok' ? planConstraints : []);
+  response.stats = {
+    ...PlanStats.fromPartial(response.stats ?? {}),
+    isValid: response.status === 'ok' && validation.isValid,
+    coverageRate: validation.coverageRate
+  };
+
+  if (validation.violations.length > 0) {
+    logger.warn('[Validator]', `Plan has ${validation.violations.length} violation(s)`,
+      validation.violations.map(v => v.message));
+  }
+
+  latestData.plan = {
+    timestamp,
+    reason: request.reason,
+    status: response.status,
+    errorMsg: response.errorMsg,
+    degraded: response.degraded,
+    bestFitness: response.bestFitness,
+    assignment: response.assignment,
+    waves: response.waves,
+    engagements: response.engagements,
+    stats: response.stats,
+    violations: validation.violations,
+    readiness: response.readiness,
+    simulation: simulatePlan(request, response.engagements, config.simulation)
+  };
+}
+
+/**
+ * 求解、校验并记录方案，推送到前端
+ * 求解失败时也返回错误响应，保证Arma的REQ套接字总能收到应答
+ */
+async function planAndRecord(request: PlanRequest, timestamp: string): Promise<PlanResponse> {
+  let response: PlanResponse;
+  try {
+    response = await solvePlanRequest(request);
+  } catch (solveError) {
+    logger.error('[Solver]', 'Solver failed', solveError);
+    response = createAckResponse('error', `Solver failed: ${String(solveError)}`);
+  }
+  validatePlanResponse(request, response, timestamp);
+  logger.info('[Solver]', 'Plan computed', {
+    reason: request.reason,
+    status: response.status,
+    degraded: response.degraded,
+    solver: response.stats?.solver,
+    optimal: response.stats?.provenOptimal,
+    fitness: response.bestFitness.toFixed(2),
+    engagements: response.engagements.length,
+    waves: new Set(response.engagements.map(e => e.wave)).size,
+    changed: response.stats?.changedAssignments,
+    coverage: response.stats?.coverageRate.toFixed(2),
+    valid: response.stats?.isValid,
+    timeMs: ((response.stats?.computationTime ?? 0) * 1000).toFixed(1)
+  });
+
+  // 审批模式下新方案先交运营人员审批；否则直接发出，并取代尚未送达的运营人员选择
+  if (config.approval.required && response.status === 'ok' && lastSolved) {
+    response = holdForApproval(request, lastSolved.problem, response, timestamp);
+  } else if (response.status === 'ok') {
+    markIssued(response);
+    recordIssuedPlan(response, request.reason);
+    pendingPlan = null;
+  }
+
+  latestData.messageType = 'plan_response';
+  broadcastToClients();
+  return response;
+}
+
+/**
+ * 计算最近一次方案的帕累托前沿并推送到前端
+ * 在应答发出后执行，不增加Arma的等待时间
+ */
+async function updateParetoFront(timestamp: string, signal: AbortSignal) {
+  paretoStale = false;
+  paretoPlans.clear();
+  if (!lastSolved || config.pareto.weights.length === 0) {
+    latestData.pareto = null;
+    return;
+  }
+
+  const { problem, assignment } = lastSolved;
+  const startTime = performance.now();
+  const front = await paretoInPool(problem, config.pareto, config.anneal, [assignment], signal);
+  const computationTime = (performance.now() - startTime) / 1000;
+
+  let activeId: number | null = null;
+  const points = front.map(point => {
+    const id = nextParetoId++;
+    const result = { assignment: point.assignment, fitness: evaluate(problem, point.assignment), iterations: 0 };
+    const solverName = point.weight === null ? latestData.plan?.stats?.solver ?? 'unknown' : `pareto(w=${point.weight})`;
+    const response = createPlanResponse(problem, result, solverName, computationTime);
+    paretoPlans.set(id, response);
+    if (point.weight === null) activeId = id;
+    return {
+      id,
+      weight: point.weight,
+      expectedValue: point.expectedValue,
+      cost: point.cost,
+      engagements: response.engagements
+    };
+  });
+
+  latestData.pareto = { timestamp, points, activeId, delivered: true };
+  logger.info('[Pareto]', `Front computed with ${points.length} plan(s)`, {
+    timeMs: (computationTime * 1000).toFixed(1)
+  });
+  broadcastToClients();
+}
+
+function cancelBackgroundJobs() {
+  background?.abort();
+  background = null;
+}
+
+/**
+ * 在线程池中运行应答后的后台任务（已有任务在运行时不重复启动）
+ * 被新的规划取消时静默结束
+ */
+async function runBackgroundJobs(timestamp: string) {
+  if (!lastSolved || background) return;
+  const controller = new AbortController();
+  background = controller;
+  const { problem, response } = lastSolved;
+
+  try {
+    if (shadowPending) {
+      shadowPending = false;
+      await runShadowSolvers(problem, response, config.shadow, config.pool.deadlineMs, controller.signal);
+    }
+    if (paretoStale) await updateParetoFront(timestamp, controller.signal);
+  } catch (error) {
+    if (!controller.signal.aborted) logger.error('[Pool]', 'Background job failed', error);
+  } finally {
+    if (background === controller) background = null;
+  }
+}
+
+/**
+ * 运营人员从帕累托前沿选择方案
+ * 方案随下一次ZMQ应答发给Arma（REP套接字无法主动推送）
+ */
+function selectParetoPlan(id: number) {
+  const response = paretoPlans.get(id);
+  if (!response || !lastSolved || !latestData.pareto) {
+    logger.warn('[Pareto]', `Unknown plan #${id}, selection ignored`);
+    return;
+  }
+
+  const request = { ...lastSolved.request, reason: 'manual' };
+  const selected = { ...response, timestamp: Date.now() / 1000 };
+  countChanges(request, selected);
+  validatePlanResponse(request, selected, new Date().toISOString());
+  markIssued(selected);
+  pendingPlan = { response: selected, reason: request.reason };
+  // 审批模式下从前沿选择方案即视为批准
+  if (config.approval.required) {
+    approvedPlan = selected;
+    if (awaitingApproval) closeApproval(awaitingApproval.id, 'pareto');
+  }
+
+  latestData.pareto.activeId = id;
+  latestData.pareto.delivered = false;
+  latestData.messageType = 'plan_response';
+  logger.info('[Pareto]', `Operator selected plan #${id}, waiting for next reply to Arma`);
+  broadcastToClients();
+}
+
+/**
+ * 添加运营人员约束，替换同一平台-目标对上已有的约束
+ * 从下一次规划起生效
+ */
+function addConstraint(kind: ConstraintKind, platformId: number, targetId: number) {
+  operatorConstraints = operatorConstraints.filter(c => c.platformId !== platformId || c.targetId !== targetId);
+  operatorConstraints.push({ id: nextConstraintId++, kind, platformId, targetId });
+  logger.info('[Constraint]', `Operator ${kind} platform #${platformId} -> target #${targetId}`);
+  broadcastToClients();
+}
+
+function removeConstraint(id: number) {
+  const before = operatorConstraints.length;
+  operatorConstraints = operatorConstraints.filter(c => c.id !== id);
+  if (operatorConstraints.length === before) {
+    logger.warn('[Constraint]', `Unknown constraint #${id}, removal ignored`);
+    return;
+  }
+  logger.info('[Constraint]', `Operator removed constraint #${id}`);
+  broadcastToClients();
+}
+
+/**
+ * 各约束的当前状态
+ * 平台/目标的存活按当前战场状态判断；其余无法满足的原因（射程、槽位等）取自最近一次规划
+ */
+function constraintStatuses(): ConstraintStatus[] {
+  const planned = new Map(planConstraints.map(c => [c.id, c]));
+  return assessConstraints(operatorConstraints, latestData.platforms, latestData.targets).map(status => {
+    const fromPlan = planned.get(status.id);
+    return status.state === 'active' && fromPlan?.state === 'unsatisfiable' ? fromPlan : status;
+  });
+}
+
+/**
+ * 审批模式下暂扣新方案，等待运营人员批准
+ * 取代尚未审批的方案时保留开始等待的时间，持续到来的新方案不会无限推迟自动批准
+ */
+function holdForApproval(request: PlanRequest, problem: WTAProblem, response: PlanResponse, timestamp: string): PlanResponse {
+  const id = nextApprovalId++;
+  const since = awaitingApproval?.since ?? Date.now();
+  awaitingApproval = { id, request, problem, response, since };
+
+  const autoApproveSec = config.approval.autoApproveSec;
+  if (!autoApproveTimer && autoApproveSec > 0) {
+    autoApproveTimer = setTimeout(autoApprove, Math.max(0, since + autoApproveSec * 1000 - Date.now()));
+  }
+  latestData.approval.pending = {
+    id,
+    timestamp,
+    reason: request.reason,
+    since,
+    autoApproveAt: autoApproveSec > 0 ? since + autoApproveSec * 1000 : null,
+    engagements: response.engagements,
+    editErrors: []
+  };
+  logger.info('[Approval]', `Plan #${id} awaiting operator approval`, {
+    reason: request.reason,
+    engagements: response.engagements.length,
+    autoApproveSec: autoApproveSec > 0 ? autoApproveSec : 'off'
+  });
+  return takePendingPlan() ?? heldResponse();
+}
+
+// 等待审批期间对Arma的应答：重发最近批准的方案（刷新时间戳和有效期），尚无批准的方案时返回hold
+function heldResponse(): PlanResponse {
+  if (!approvedPlan) return createAckResponse('hold', 'Plan awaiting operator approval');
+  refreshIssuedPlan(approvedPlan.ttlSec);
+  return { ...approvedPlan, timestamp: Date.now() / 1000 };
+}
+
+// 结束对方案的审批并记录决定
+function closeApproval(id: number, decision: ApprovalDecision) {
+  awaitingApproval = null;
+  if (autoApproveTimer) clearTimeout(autoApproveTimer);
+  autoApproveTimer = null;
+  latestData.approval.pending = null;
+  latestData.approval.last = { id, decision, timestamp: new Date().toISOString() };
+}
+
+/**
+ * 运营人员修改交战列表：保留约束固定的交战，按原问题为每条交战选择该平台可行的空闲槽位，
+ * 重新生成弹药、波次与航线；issues为无法对应到可行槽位的交战
+ */
+function editPlan(
+  problem: WTAProblem,
+  original: PlanResponse,
+  edits: EditedPair[]
+): { plan: PlanResponse; issues: string[] } {
+  const { assignment, issues } = editAssignment(problem, edits);
+  const result = { assignment, fitness: evaluate(problem, assignment), iterations: 0 };
+  const plan = createPlanResponse(problem, result, `${original.stats?.solver ?? 'unknown'}+edited`,
+    original.stats?.computationTime ?? 0);
+  return { plan, issues };
+}
+
+/**
+ * 批准等待审批的方案（可附带修改后的交战列表），随下一次ZMQ应答发给Arma
+ * 批准时按当前战场状态重新校验；修改后的方案违反任何规则时拒绝批准，方案继续等待审批，原因推送到前端
+ */
+function approvePlan(id: number, decision: ApprovalDecision, edits?: EditedPair[]) {
+  if (!awaitingApproval || awaitingApproval.id !== id) {
+    logger.warn('[Approval]', `Plan #${id} is not awaiting approval, ${decision} ignored`);
+    return;
+  }
+
+  const { request, problem } = awaitingApproval;
+  const current = PlanRequest.fromPartial({
+    timestamp: Date.now() / 1000,
+    reason: request.reason,
+    platforms: latestData.platforms,
+    targets: latestData.targets
+  });
+
+  let plan = awaitingApproval.response;
+  if (edits) {
+    const edited = editPlan(problem, plan, edits);
+    const validation = validatePlan(current, edited.plan.engagements, edited.plan.readiness, planConstraints);
+    const errors = [
+      ...edited.issues,
+      ...validation.violations.map(v => `#${v.platformId} -> #${v.targetId}: ${v.message}`)
+    ];
+    if (errors.length > 0) {
+      logger.warn('[Approval]', `Edited plan #${id} refused, still awaiting approval`, errors);
+      if (latestData.approval.pending) latestData.approval.pending.editErrors = errors;
+      broadcastToClients();
+      return;
+    }
+    plan = edited.plan;
+  }
+
+  const approved = { ...plan, timestamp: current.timestamp };
+  countChanges(current, approved);
+  validatePlanResponse(current, approved, new Date().toISOString());
+  closeApproval(id, decision);
+
+  markIssued(approved);
+  approvedPlan = approved;
+  pendingPlan = { response: approved, reason: request.reason };
+  latestData.approval.delivered = false;
+  latestData.messageType = 'plan_response';
+  logger.info('[Approval]', `Plan #${id} approved (${decision}), waiting for next reply to Arma`, {
+    engagements: approved.engagements.length,
+    valid: approved.stats?.isValid
+  });
+  broadcastToClients();
+}
+
+function autoApprove() {
+  autoApproveTimer = null;
+  if (awaitingApproval) approvePlan(awaitingApproval.id, 'auto');
+}
+
+// 拒绝等待审批的方案，Arma继续执行最近批准的方案
+function rejectPlan(id: number) {
+  if (!awaitingApproval || awaitingApproval.id !== id) {
+    logger.warn('[Approval]', `Plan #${id} is not awaiting approval, rejection ignored`);
+    return;
+  }
+  closeApproval(id, 'rejected');
+  logger.info('[Approval]', `Plan #${id} rejected by operator`);
+  broadcastToClients();
+}
+
+// 取出等待发送的方案；没有时返回null
+function takePendingPlan(): PlanResponse | null {
+  const plan = pendingPlan;
+  pendingPlan = null;
+  if (!plan) return null;
+
+  recordIssuedPlan(plan.response, plan.reason);
+  if (latestData.pareto) latestData.pareto.delivered = true;
+  latestData.approval.delivered = true;
+  logger.info('[ZMQ]', 'Selected or approved plan delivered to Arma');
+  broadcastToClients();
+  return plan.response;
+}
+
+/**
+ * 事件更新战场状态后的处理
+ * 当前方案因平台/目标损失或弹药耗尽失效时立即重规划，新方案作为本次应答发给Arma
+ * （只检查尚未执行的部分：方案计算后已开火的发数从交战中扣除）
+ * （审批模式下检查等待审批的方案，该方案仍有效时不重规划，以免替换运营人员正在审阅的方案）；
+ * 否则推送状态变化并返回普通确认
+ */
+async function handleWorldEvent(changed: boolean, cause: string, messageType: string, timestamp: string): Promise<PlanResponse> {
+  if (!changed) return takePendingPlan() ?? createAckResponse();
+
+  latestData.timestamp = timestamp;
+  latestData.messageType = messageType;
+
+  const current = awaitingApproval?.response.engagements ?? lastEngagements;
+  if (current && current.length > 0) {
+    const request = PlanRequest.fromPartial({
+      timestamp: Date.now() / 1000,
+      reason: 'event',
+      platforms: latestData.platforms,
+      targets: latestData.targets
+    });
+    const readiness = assessReadiness(request.platforms, request.targets, config.readiness);
+    const constraints = assessConstraints(operatorConstraints, request.platforms, request.targets);
+    const remaining = remainingEngagements(current, shotsSincePlan);
+    const invalid = validatePlan(request, remaining, readiness, constraints).violations
+      .filter(v => REPLAN_RULES.has(v.rule));
+    if (invalid.length > 0) {
+      logger.info('[Solver]', `Current plan invalidated by ${cause}, replanning`, invalid.map(v => v.message));
+      return planAndRecord(request, timestamp);
+    }
+  }
+
+  broadcastToClients();
+  return takePendingPlan() ?? createAckResponse();
+}
+
+/**
+ * 编码ZMQ应答，附带所有排队的运营人员指令
+ * 不修改传入的响应（可能是会被重发的已批准方案）
+ */
+function encodeReply(response: PlanResponse): Uint8Array {
+  const commands = takeQueuedCommands();
+  if (commands.length > 0) broadcastToClients();
+  const responseMsg = WTAMessage.create({ planResponse: { ...response, commands } });
+  return WTAMessage.encode(responseMsg).finish();
+}
+
+// 发给Arma的仪表板指令排队等待下一次应答；修改方案有效期同时作用于之后的方案（指令被拒绝时不修改）
+function queueArmaCommand(command: ClientCommand) {
+  if (command.type === 'replan') {
+    enqueueCommand({ replan: {} });
+  } else if (command.type === 'abort_engagement') {
+    enqueueCommand({ abortEngagement: { platformId: command.platformId, targetId: command.targetId } });
+  } else if (command.type === 'set_plan_ttl') {
+    if (enqueueCommand({ setPlanTtl: { ttlSec: command.ttlSec } })) planTtlSec = command.ttlSec;
+  }
+  broadcastToClients();
+}
+
 // ZeroMQ接收器
 async function startZmqReceiver() {
   const sock = new zmq.Reply();
@@ -201,32 +817,16 @@ async function startZmqReceiver() {
           latestData.timestamp = timestamp;
           latestData.platforms = message.statusReport.platforms;
           latestData.targets = message.statusReport.targets;
+          latestData.targets.forEach(t => seenTargetIds.add(t.id));
           latestData.messageType = 'status_report';
           
           // 通知所有WebSocket客户端
           broadcastToClients();
           
-          // 发送简单响应（fire-and-forget，不需要规划结果）
-          const response: PlanResponse = {
-            status: 'ok',
-            timestamp: Date.now() / 1000,
-            bestFitness: 0,
-            assignment: {},
-            nPlatforms: 0,
-            nTargets: 0,
-            stats: {
-              computationTime: 0,
-              iterations: 0,
-              isValid: true,
-              coverageRate: 0
-            },
-            ttlSec: 0,
-            errorMsg: ''
-          };
+          // 发送简单响应（fire-and-forget，不需要规划结果）；有运营人员选择的方案时随此应答下发
+          const response = takePendingPlan() ?? createAckResponse();
           
-          const responseMsg = WTAMessage.create({ planResponse: response });
-          const responseBuffer = WTAMessage.encode(responseMsg).finish();
-          await sock.send(responseBuffer);
+          await sock.send(encodeReply(response));
           
         } else if (message.planRequest) {
           // WTA规划请求 - 需要返回分配方案
@@ -278,28 +878,15 @@ async function startZmqReceiver() {
             });
           }
           
-          // TODO: 这里应该调用Python求解器
-          // 目前返回空方案作为占位
-          const response: PlanResponse = {
-            status: 'ok',
-            timestamp: Date.now() / 1000,
-            bestFitness: 0.0,
-            assignment: {},  // 空分配方案
-            nPlatforms: message.planRequest.platforms.length,
-            nTargets: message.planRequest.targets.length,
-            stats: {
-              computationTime: 0.001,
-              iterations: 0,
-              isValid: true,
-              coverageRate: 0.0
-            },
-            ttlSec: 2.0,
-            errorMsg: ''
-          };
+          // 规划请求同样携带最新战场状态，后续事件在此基础上更新
+          latestData.timestamp = timestamp;
+          latestData.platforms = message.planRequest.platforms;
+          latestData.targets = message.planRequest.targets;
+          latestData.targets.forEach(t => seenTargetIds.add(t.id));
+
+          const response = await planAndRecord(message.planRequest, timestamp);
           
-          const responseMsg = WTAMessage.create({ planResponse: response });
-          const responseBuffer = WTAMessage.encode(responseMsg).finish();
-          await sock.send(responseBuffer);
+          await sock.send(encodeReply(response));
           
         } else if (message.entityKilled) {
           // 实体击毁事件
@@ -313,20 +900,15 @@ async function startZmqReceiver() {
             logger.debug('[ZMQ]', 'EntityKilled full content:', message.entityKilled);
           }
           
-          // 简单确认响应
-          const response: PlanResponse = {
-            status: 'ok',
-            timestamp: Date.now() / 1000,
-            bestFitness: 0,
-            assignment: {},
-            nPlatforms: 0,
-            nTargets: 0,
-            stats: { computationTime: 0, iterations: 0, isValid: true, coverageRate: 0 },
-            ttlSec: 0,
-            errorMsg: ''
-          };
-          const responseMsg = WTAMessage.create({ planResponse: response });
-          await sock.send(WTAMessage.encode(responseMsg).finish());
+          if (message.entityKilled.entityType === 'target') {
+            recordTargetKilled(message.entityKilled.entityId, config.outcomes);
+          }
+          recordPlanEntityKilled(message.entityKilled.entityType, message.entityKilled.entityId);
+          if (message.entityKilled.entityType === 'target') seenTargetIds.add(message.entityKilled.entityId);
+          const changed = applyEntityKilled(latestData, message.entityKilled);
+          const response = await handleWorldEvent(changed,
+            `${message.entityKilled.entityType} #${message.entityKilled.entityId} killed`, 'entity_killed', timestamp);
+          await sock.send(encodeReply(response));
           
         } else if (message.damage) {
           // 伤害事件
@@ -341,19 +923,14 @@ async function startZmqReceiver() {
             logger.debug('[ZMQ]', 'Damage full content:', message.damage);
           }
           
-          const response: PlanResponse = {
-            status: 'ok',
-            timestamp: Date.now() / 1000,
-            bestFitness: 0,
-            assignment: {},
-            nPlatforms: 0,
-            nTargets: 0,
-            stats: { computationTime: 0, iterations: 0, isValid: true, coverageRate: 0 },
-            ttlSec: 0,
-            errorMsg: ''
-          };
-          const responseMsg = WTAMessage.create({ planResponse: response });
-          await sock.send(WTAMessage.encode(responseMsg).finish());
+          if (message.damage.damageAmount >= 1) {
+            if (message.damage.entityType === 'target') recordTargetKilled(message.damage.entityId, config.outcomes);
+            recordPlanEntityKilled(message.damage.entityType, message.damage.entityId);
+          }
+          const changed = applyDamage(latestData, message.damage);
+          const response = await handleWorldEvent(changed,
+            `${message.damage.entityType} #${message.damage.entityId} damaged`, 'damage', timestamp);
+          await sock.send(encodeReply(response));
           
         } else if (message.fired) {
           // 开火事件
@@ -367,35 +944,35 @@ async function startZmqReceiver() {
             logger.debug('[ZMQ]', 'Fired full content:', message.fired);
           }
           
-          const response: PlanResponse = {
-            status: 'ok',
-            timestamp: Date.now() / 1000,
-            bestFitness: 0,
-            assignment: {},
-            nPlatforms: 0,
-            nTargets: 0,
-            stats: { computationTime: 0, iterations: 0, isValid: true, coverageRate: 0 },
-            ttlSec: 0,
-            errorMsg: ''
-          };
-          const responseMsg = WTAMessage.create({ planResponse: response });
-          await sock.send(WTAMessage.encode(responseMsg).finish());
+          recordShot(message.fired, latestData.platforms, latestData.targets, config.munitions, config.outcomes);
+          recordPlanFired(message.fired);
+          const shotKey = `${message.fired.platformId}->${message.fired.targetId}`;
+          shotsSincePlan.set(shotKey, (shotsSincePlan.get(shotKey) ?? 0) + 1);
+          const changed = applyFired(latestData, message.fired, config.munitions);
+          const response = await handleWorldEvent(changed,
+            `platform #${message.fired.platformId} fired`, 'fired', timestamp);
+          await sock.send(encodeReply(response));
           
+        } else if (message.commandAck) {
+          // 运营人员指令的执行确认
+          logger.info('[ZMQ]', 'Type: CommandAck', {
+            results: message.commandAck.results.map(r => `#${r.commandId}:${r.success ? 'ok' : 'failed'}`)
+          });
+
+          acknowledgeCommands(message.commandAck).forEach(command => {
+            if (command.abortEngagement) {
+              recordPlanAborted(command.abortEngagement.platformId, command.abortEngagement.targetId);
+            }
+          });
+          latestData.messageType = 'command_ack';
+          broadcastToClients();
+          const response = takePendingPlan() ?? createAckResponse();
+          await sock.send(encodeReply(response));
+
         } else {
           logger.warn('[ZMQ]', 'Unknown message type (all fields undefined)');
-          const response: PlanResponse = {
-            status: 'error',
-            timestamp: Date.now() / 1000,
-            bestFitness: 0,
-            assignment: {},
-            nPlatforms: 0,
-            nTargets: 0,
-            stats: { computationTime: 0, iterations: 0, isValid: false, coverageRate: 0 },
-            ttlSec: 0,
-            errorMsg: 'Unknown message type'
-          };
-          const responseMsg = WTAMessage.create({ planResponse: response });
-          await sock.send(WTAMessage.encode(responseMsg).finish());
+          const response = createAckResponse('error', 'Unknown message type');
+          await sock.send(encodeReply(response));
         }
 
       } catch (parseError) {
@@ -406,21 +983,13 @@ async function startZmqReceiver() {
         });
         
         // 返回错误响应
-        const response: PlanResponse = {
-          status: 'error',
-          timestamp: Date.now() / 1000,
-          bestFitness: 0,
-          assignment: {},
-          nPlatforms: 0,
-          nTargets: 0,
-          stats: { computationTime: 0, iterations: 0, isValid: false, coverageRate: 0 },
-          ttlSec: 0,
-          errorMsg: 'Protobuf decode failed'
-        };
-        const responseMsg = WTAMessage.create({ planResponse: response });
-        await sock.send(WTAMessage.encode(responseMsg).finish());
+        const response = createAckResponse('error', 'Protobuf decode failed');
+        await sock.send(encodeReply(response));
       }
 
+      // 应答发出后再运行影子求解器、计算帕累托前沿（不阻塞接收循环）
+      if (shadowPending || paretoStale) void runBackgroundJobs(timestamp);
+
     } catch (error) {
       logger.error('[ZMQ]', 'ZMQ receiver error', error);
     }
@@ -434,6 +1003,14 @@ function broadcastToClients() {
     return;
   }
 
+  // 威胁评估由当前战场状态派生，推送前重新计算
+  latestData.threats = threatZones(latestData.targets, config.threat);
+  latestData.platformRisk = assessPlatformRisk(latestData.platforms, latestData.targets, config.threat);
+  latestData.hitProbs = hitProbEstimates(config.outcomes);
+  latestData.constraints = constraintStatuses();
+  latestData.commands = commandHistory();
+  latestData.issuedPlans = issuedPlans();
+
   const message = JSON.stringify(latestData);
   const disconnected: WebSocket[] = [];
   
@@ -488,6 +1065,37 @@ function startWebSocketServer() {
       const msg = message.toString();
       if (msg === 'ping') {
         ws.send('pong');
+        return;
+      }
+
+      // 运营人员命令（JSON，见ClientCommand）
+      const command = parseClientCommand(msg);
+      if (typeof command === 'string') {
+        logger.warn('[WebSocket]', `Invalid client command: ${command}`, msg);
+        return;
+      }
+      switch (command.type) {
+        case 'select_plan':
+          selectParetoPlan(command.planId);
+          break;
+        case 'pin':
+        case 'forbid':
+          addConstraint(command.type, command.platformId, command.targetId);
+          break;
+        case 'remove_constraint':
+          removeConstraint(command.id);
+          break;
+        case 'approve_plan':
+          approvePlan(command.planId, command.engagements ? 'edited' : 'approved', command.engagements);
+          break;
+        case 'reject_plan':
+          rejectPlan(command.planId);
+          break;
+        case 'replan':
+        case 'abort_engagement':
+        case 'set_plan_ttl':
+          queueArmaCommand(command);
+          break;
       }
     });
 
@@ -526,6 +1134,19 @@ async function main() {
     wsEndpoint: 'ws://localhost:8765'
   });
 
+  logger.info('[Solver]', 'Registered solvers', listSolvers().map(s => `${s.name} - ${s.description}`));
+  logger.info('[Solver]', 'Solver selection', config.solvers);
+  if (config.shadow.solvers.length > 0) {
+    logger.info('[Shadow]', `Shadow solvers: ${config.shadow.solvers.join(', ')} -> ${config.shadow.reportPath}`);
+  }
+  const unknown = unknownConfiguredSolvers();
+  if (unknown.length > 0) {
+    logger.warn('[Solver]', `Unknown solver(s) in configuration, falling back to default: ${unknown.join(', ')}`);
+  }
+
+  startSolverPool(config.pool);
+  await loadOutcomeStats(config.outcomes);
+
   // 启动WebSocket服务器
   startWebSocketServer();
 
@@ -536,11 +1157,17 @@ async function main() {
 // 优雅退出
 process.on('SIGINT', () => {
   logger.info('[Server]', 'Received SIGINT, shutting down gracefully...');
+  planning?.abort();
+  stopExternalSolver();
+  stopSolverPool();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   logger.info('[Server]', 'Received SIGTERM, shutting down gracefully...');
+  planning?.abort();
+  stopExternalSolver();
+  stopSolverPool();
   process.exit(0);
 });
 